@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { Play, Volume2, ArrowRight, X, Music, Info, Sparkles, Settings, RefreshCw, ChevronRight, ChevronLeft, HelpCircle, BookOpen, Layers } from 'lucide-react';
+import { Play, Pause, Square, Repeat, Download, Volume2, ArrowRight, X, Music, Info, Sparkles, Settings, RefreshCw, ChevronRight, ChevronLeft, HelpCircle, BookOpen, Layers, Zap, Lock, Wand2, ZoomIn, ZoomOut, Save, FolderOpen, Tag, Link, ArrowLeftRight, Type, Lightbulb, ListMusic, AlertCircle } from 'lucide-react';
 import { GoogleGenAI } from "@google/genai";
 
 // --- AUDIO ENGINE ---
@@ -15,7 +15,7 @@ const NOTE_FREQUENCIES: Record<string, number> = {
 };
 
 const getFrequency = (note: string, octave: number) => {
-  const base = NOTE_FREQUENCIES[note];
+  const base = NOTE_FREQUENCIES[note] ?? NOTE_FREQUENCIES[ALL_NOTES[getPitchClass(note)]];
   if (!base) return 0;
   return base * Math.pow(2, octave);
 };
@@ -29,39 +29,574 @@ const initAudio = () => {
     }
 };
 
-const strumChord = (notes: { note: string, octave: number }[]) => {
+// Voices that are still sounding (or scheduled), so playback can be cut short
+const activeVoices = new Set<{ source: AudioScheduledSourceNode, gain: GainNode }>();
+
+// Where a voice is rendered: the live context, or an OfflineAudioContext when bouncing
+interface AudioTarget {
+  ctx: BaseAudioContext;
+  destination: AudioNode;
+  live: boolean; // Live voices are tracked so Stop / Pause can silence them
+}
+
+const getLiveTarget = (): AudioTarget | null => {
   initAudio();
-  if (!audioCtx) return;
+  if (!audioCtx) return null;
+  return { ctx: audioCtx, destination: audioCtx.destination, live: true };
+};
+
+type StrumDirection = 'down' | 'up' | 'pluck';
+
+// 'oscillator' is the original triangle-wave voice, 'plucked' the Karplus-Strong string model
+type SynthVoice = 'oscillator' | 'plucked';
+
+const SYNTH_VOICES: { id: SynthVoice, label: string }[] = [
+  { id: 'plucked', label: 'Plucked String' },
+  { id: 'oscillator', label: 'Classic Synth' },
+];
+
+interface StrumOptions {
+  direction?: StrumDirection; // down = low to high, up = high to low, pluck = all strings at once
+  velocity?: number; // 0..1
+  muted?: boolean; // Percussive "chuck" with the fretting hand damping the strings
+  sustain?: number; // Seconds before the strings are choked
+  target?: AudioTarget; // Defaults to the live audio context
+  voice?: SynthVoice;
+}
+
+interface StrumNote {
+  note: string;
+  octave: number;
+  string?: number; // 0 = lowest string, used for per-string damping
+}
+
+// Gap between strings; upstrokes are usually lighter and quicker
+const STRUM_GAPS: Record<StrumDirection, number> = { down: 0.035, up: 0.025, pluck: 0 };
+
+// --- PLUCKED STRING MODEL ---
+// Karplus-Strong: a burst of noise circulates through a delay line one period long,
+// losing a little energy (and treble) on every pass, like a real string.
+
+// Loop gain per string. Wound bass strings ring longer, plain trebles die away sooner.
+const STRING_DAMPING = [0.9985, 0.998, 0.9975, 0.997, 0.9965, 0.996];
+const PLUCK_BUFFER_SECONDS = 3.5;
+
+const pluckCache = new Map<string, AudioBuffer>();
+
+const createPluckBuffer = (ctx: BaseAudioContext, frequency: number, stringIdx: number): AudioBuffer => {
+  const damping = STRING_DAMPING[Math.min(stringIdx, STRING_DAMPING.length - 1)];
+  const key = `${ctx.sampleRate}-${frequency.toFixed(2)}-${damping}`;
+  const cached = pluckCache.get(key);
+  if (cached) return cached;
+
+  const sampleRate = ctx.sampleRate;
+  const length = Math.ceil(sampleRate * PLUCK_BUFFER_SECONDS);
+  const buffer = ctx.createBuffer(1, length, sampleRate);
+  const out = buffer.getChannelData(0);
+
+  // The averaging filter adds half a sample of delay; an allpass makes up the fractional rest
+  const delay = sampleRate / frequency - 0.5;
+  let period = Math.floor(delay);
+  let frac = delay - period;
+  if (frac < 0.1) { period -= 1; frac += 1; }
+  const allpassC = (1 - frac) / (1 + frac);
+
+  // Excitation: white noise, lightly smoothed so the attack isn't harsh
+  const line = new Float32Array(period);
+  let prevNoise = 0;
+  for (let i = 0; i < period; i++) {
+    const noise = Math.random() * 2 - 1;
+    line[i] = (noise + prevNoise) * 0.5;
+    prevNoise = noise;
+  }
+
+  let idx = 0;
+  let apIn = 0;
+  let apOut = 0;
+  for (let n = 0; n < length; n++) {
+    const current = line[idx];
+    const next = line[(idx + 1) % period];
+    const averaged = damping * 0.5 * (current + next);
+    apOut = allpassC * averaged + apIn - allpassC * apOut;
+    apIn = averaged;
+    line[idx] = apOut;
+    out[n] = current;
+    idx = (idx + 1) % period;
+  }
+
+  pluckCache.set(key, buffer);
+  return buffer;
+};
+
+// A few broad resonances standing in for the guitar body (air + top plate modes)
+const createBodyFilter = (target: AudioTarget): AudioNode => {
+  const { ctx } = target;
+  const air = ctx.createBiquadFilter();
+  air.type = 'peaking';
+  air.frequency.value = 100;
+  air.Q.value = 1.5;
+  air.gain.value = 6;
+
+  const top = ctx.createBiquadFilter();
+  top.type = 'peaking';
+  top.frequency.value = 220;
+  top.Q.value = 1.2;
+  top.gain.value = 4;
+
+  const presence = ctx.createBiquadFilter();
+  presence.type = 'peaking';
+  presence.frequency.value = 2800;
+  presence.Q.value = 0.8;
+  presence.gain.value = 2;
+
+  const rolloff = ctx.createBiquadFilter();
+  rolloff.type = 'lowpass';
+  rolloff.frequency.value = 6000;
+
+  air.connect(top);
+  top.connect(presence);
+  presence.connect(rolloff);
+  rolloff.connect(target.destination);
+  return air;
+};
+
+// `notes` are expected in string order (lowest string first)
+const strumChord = (notes: StrumNote[], when?: number, options: StrumOptions = {}) => {
+  const target = options.target ?? getLiveTarget();
+  if (!target) return;
+  const { ctx } = target;
   
-  const now = audioCtx.currentTime;
-  notes.forEach((n, i) => {
-    const osc = audioCtx!.createOscillator();
-    const gain = audioCtx!.createGain();
-    
-    // Guitar-ish oscillator mix
-    osc.type = 'triangle'; // Closer to a plucked string than sine
-    
-    osc.frequency.value = getFrequency(n.note, n.octave);
+  const { direction = 'down', velocity = 1, muted = false, sustain = 2.5, voice = 'oscillator' } = options;
+  const now = when ?? ctx.currentTime;
+  const ordered = direction === 'up' ? [...notes].reverse() : notes;
+  const plucked = voice === 'plucked';
+  const attack = muted ? 0.005 : plucked ? 0.002 : 0.05;
+  const decay = muted ? 0.06 : Math.max(sustain, attack + 0.02);
+  const destination = plucked ? createBodyFilter(target) : target.destination;
+
+  ordered.forEach((n, i) => {
+    const gain = ctx.createGain();
+    const frequency = getFrequency(n.note, n.octave);
+    let source: AudioScheduledSourceNode;
+
+    if (plucked) {
+      const pluck = ctx.createBufferSource();
+      pluck.buffer = createPluckBuffer(ctx, frequency, n.string ?? i);
+      source = pluck;
+    } else {
+      const osc = ctx.createOscillator();
+      // Guitar-ish oscillator mix
+      osc.type = 'triangle'; // Closer to a plucked string than sine
+      osc.frequency.value = frequency;
+      source = osc;
+    }
     
     // Strumming delay
-    const strumDelay = i * 0.035; 
+    const strumDelay = i * STRUM_GAPS[direction]; 
+    const peak = (plucked ? 0.35 : 0.25) * velocity * (muted ? 0.6 : 1);
     
     gain.gain.setValueAtTime(0, now + strumDelay);
-    gain.gain.linearRampToValueAtTime(0.25, now + strumDelay + 0.05); // Attack
-    gain.gain.exponentialRampToValueAtTime(0.001, now + strumDelay + 2.5); // Decay
+    gain.gain.linearRampToValueAtTime(peak, now + strumDelay + attack); // Attack
+    if (plucked) {
+      // The string model decays on its own; the envelope only chokes it
+      gain.gain.setValueAtTime(peak, now + strumDelay + decay);
+      gain.gain.linearRampToValueAtTime(0, now + strumDelay + decay + 0.08);
+    } else {
+      gain.gain.exponentialRampToValueAtTime(0.001, now + strumDelay + decay); // Decay
+    }
     
-    osc.connect(gain);
-    gain.connect(audioCtx!.destination);
+    source.connect(gain);
+    gain.connect(destination);
     
-    osc.start(now + strumDelay);
-    osc.stop(now + strumDelay + 3.0);
+    if (target.live) {
+      const activeVoice = { source, gain };
+      activeVoices.add(activeVoice);
+      source.onended = () => activeVoices.delete(activeVoice);
+    }
+
+    source.start(now + strumDelay);
+    source.stop(now + strumDelay + decay + 0.5);
+  });
+};
+
+// Metronome blip, accented on the downbeat
+const playClick = (target: AudioTarget, time: number, accent: boolean) => {
+  const osc = target.ctx.createOscillator();
+  const gain = target.ctx.createGain();
+  osc.type = 'square';
+  osc.frequency.value = accent ? 1500 : 1000;
+  gain.gain.setValueAtTime(accent ? 0.3 : 0.18, time);
+  gain.gain.exponentialRampToValueAtTime(0.001, time + 0.05);
+  osc.connect(gain);
+  gain.connect(target.destination);
+  osc.start(time);
+  osc.stop(time + 0.06);
+};
+
+// Quickly fades out everything that is ringing or queued (used by Stop / Pause)
+const silenceAll = () => {
+  if (!audioCtx) return;
+  const now = audioCtx.currentTime;
+  activeVoices.forEach(({ source, gain }) => {
+    gain.gain.cancelScheduledValues(now);
+    gain.gain.setValueAtTime(gain.gain.value, now);
+    gain.gain.linearRampToValueAtTime(0, now + 0.05);
+    try { source.stop(now + 0.06); } catch { /* already stopped */ }
   });
+  activeVoices.clear();
+};
+
+// --- TRANSPORT ---
+// Lookahead scheduler: a short timer wakes up often and queues every chord that
+// starts within the next SCHEDULE_AHEAD seconds against audioCtx.currentTime,
+// so timing stays sample-accurate even when the main thread is busy.
+
+interface TransportSettings {
+  bpm: number;
+  beatsPerBar: number; // Time signature numerator
+  beatUnit: number; // Time signature denominator (the beat BPM refers to)
+  beatsPerChord: number;
+  loop: boolean;
+}
+
+type TransportStatus = 'stopped' | 'playing' | 'paused';
+
+const DEFAULT_TRANSPORT: TransportSettings = { bpm: 90, beatsPerBar: 4, beatUnit: 4, beatsPerChord: 4, loop: false };
+
+const TIME_SIGNATURES = [
+  { beatsPerBar: 4, beatUnit: 4 },
+  { beatsPerBar: 3, beatUnit: 4 },
+  { beatsPerBar: 2, beatUnit: 4 },
+  { beatsPerBar: 6, beatUnit: 8 },
+  { beatsPerBar: 5, beatUnit: 4 },
+];
+
+const SCHEDULER_INTERVAL_MS = 25;
+const SCHEDULE_AHEAD = 0.1; // seconds
+
+const getSecondsPerBeat = (settings: TransportSettings) => 60 / settings.bpm;
+
+interface TransportCallbacks {
+  getLength: () => number;
+  getSettings: () => TransportSettings;
+  onSchedule: (idx: number, time: number, duration: number) => void;
+  onPlayhead: (idx: number | null) => void;
+  onEnd: () => void;
+}
+
+const createTransport = (callbacks: TransportCallbacks) => {
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let nextIdx = 0;
+  let nextTime = 0;
+  let currentIdx: number | null = null;
+  let endTime = 0;
+  const queue: { idx: number, time: number }[] = [];
+
+  const tick = () => {
+    if (!audioCtx) return;
+    const length = callbacks.getLength();
+    const settings = callbacks.getSettings();
+    const chordDuration = getSecondsPerBeat(settings) * settings.beatsPerChord;
+
+    // Queue everything that falls inside the lookahead window
+    while (length > 0 && nextTime < audioCtx.currentTime + SCHEDULE_AHEAD) {
+      if (nextIdx >= length) {
+        if (!settings.loop) break;
+        nextIdx = 0;
+      }
+      callbacks.onSchedule(nextIdx, nextTime, chordDuration);
+      queue.push({ idx: nextIdx, time: nextTime });
+      endTime = nextTime + chordDuration;
+      nextTime += chordDuration;
+      nextIdx++;
+    }
+
+    // Move the playhead to whatever has actually started sounding
+    while (queue.length && queue[0].time <= audioCtx.currentTime) {
+      currentIdx = queue.shift()!.idx;
+      callbacks.onPlayhead(currentIdx);
+    }
+
+    const finished = length === 0 || (nextIdx >= length && !settings.loop && !queue.length && audioCtx.currentTime >= endTime);
+    if (finished) {
+      halt();
+      nextIdx = 0;
+      currentIdx = null;
+      callbacks.onPlayhead(null);
+      callbacks.onEnd();
+    }
+  };
+
+  const halt = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+    queue.length = 0;
+  };
+
+  const start = (fromIdx: number = 0) => {
+    initAudio();
+    if (!audioCtx) return;
+    halt();
+    nextIdx = fromIdx;
+    nextTime = audioCtx.currentTime + 0.05;
+    timer = setInterval(tick, SCHEDULER_INTERVAL_MS);
+    tick();
+  };
+
+  // Returns the chord index to resume from
+  const pause = (): number => {
+    halt();
+    silenceAll();
+    const resumeIdx = currentIdx ?? nextIdx;
+    nextIdx = resumeIdx;
+    return resumeIdx;
+  };
+
+  const stop = () => {
+    halt();
+    silenceAll();
+    nextIdx = 0;
+    currentIdx = null;
+    callbacks.onPlayhead(null);
+  };
+
+  return { start, pause, stop };
+};
+
+// --- RHYTHM PATTERNS ---
+// A pattern is a list of hits placed on a grid of `subdivision` steps per beat.
+// It repeats every `lengthBeats` until the chord's duration is filled.
+
+// Which strings a hit sounds. Numbers are positions among the *played* strings of
+// the voicing (0 = lowest sounding string, negative values count down from the top).
+type StringSelector = 'all' | 'bass' | 'altBass' | 'treble' | number[];
+
+interface PatternHit {
+  step: number;
+  direction: StrumDirection;
+  velocity: number;
+  muted?: boolean;
+  strings?: StringSelector; // Defaults to 'all'
+  hold?: number; // Steps to let the hit ring; defaults to the next hit
+}
+
+interface RhythmPattern {
+  id: string;
+  name: string;
+  description: string;
+  subdivision: number; // Steps per beat (2 = 8ths, 4 = 16ths)
+  lengthBeats: number;
+  hits: PatternHit[];
+  arpeggio?: 'up' | 'down' | 'custom'; // Generates one single-string hit per step instead of `hits`
+}
+
+const RHYTHM_PATTERNS: RhythmPattern[] = [
+  {
+    id: 'block', name: 'Whole Strum', description: 'One downstroke, let it ring',
+    subdivision: 1, lengthBeats: 16,
+    hits: [{ step: 0, direction: 'down', velocity: 0.9 }]
+  },
+  {
+    id: 'ddu-udu', name: 'D-DU-UDU', description: 'The campfire pop strum',
+    subdivision: 2, lengthBeats: 4,
+    hits: [
+      { step: 0, direction: 'down', velocity: 1 },
+      { step: 2, direction: 'down', velocity: 0.8 },
+      { step: 3, direction: 'up', velocity: 0.55 },
+      { step: 5, direction: 'up', velocity: 0.55 },
+      { step: 6, direction: 'down', velocity: 0.8 },
+      { step: 7, direction: 'up', velocity: 0.55 },
+    ]
+  },
+  {
+    id: 'folk-8ths', name: 'Folk 8ths', description: 'Steady down-up with accents on the beat',
+    subdivision: 2, lengthBeats: 2,
+    hits: [
+      { step: 0, direction: 'down', velocity: 1 },
+      { step: 1, direction: 'up', velocity: 0.5 },
+      { step: 2, direction: 'down', velocity: 0.8 },
+      { step: 3, direction: 'up', velocity: 0.5 },
+    ]
+  },
+  {
+    id: 'reggae-skank', name: 'Reggae Skank', description: 'Short offbeat chops on the top strings',
+    subdivision: 2, lengthBeats: 2,
+    hits: [
+      { step: 0, direction: 'down', velocity: 0.4, muted: true, strings: 'treble' },
+      { step: 1, direction: 'up', velocity: 0.85, strings: 'treble', hold: 0.5 },
+      { step: 2, direction: 'down', velocity: 0.4, muted: true, strings: 'treble' },
+      { step: 3, direction: 'up', velocity: 0.85, strings: 'treble', hold: 0.5 },
+    ]
+  },
+  {
+    id: 'travis', name: 'Travis Picking', description: 'Alternating thumb bass with fingers on top',
+    subdivision: 2, lengthBeats: 4,
+    hits: [
+      { step: 0, direction: 'pluck', velocity: 0.9, strings: [0, -1] },
+      { step: 1, direction: 'pluck', velocity: 0.6, strings: [-3] },
+      { step: 2, direction: 'pluck', velocity: 0.8, strings: 'altBass' },
+      { step: 3, direction: 'pluck', velocity: 0.6, strings: [-2] },
+      { step: 4, direction: 'pluck', velocity: 0.85, strings: 'bass' },
+      { step: 5, direction: 'pluck', velocity: 0.6, strings: [-1] },
+      { step: 6, direction: 'pluck', velocity: 0.8, strings: 'altBass' },
+      { step: 7, direction: 'pluck', velocity: 0.6, strings: [-2] },
+    ]
+  },
+  {
+    id: 'arp-up', name: 'Arpeggio Up', description: 'One string at a time, low to high',
+    subdivision: 2, lengthBeats: 4, hits: [], arpeggio: 'up'
+  },
+  {
+    id: 'arp-down', name: 'Arpeggio Down', description: 'One string at a time, high to low',
+    subdivision: 2, lengthBeats: 4, hits: [], arpeggio: 'down'
+  },
+  {
+    id: 'arp-custom', name: 'Custom Arpeggio', description: 'Your own string order',
+    subdivision: 2, lengthBeats: 4, hits: [], arpeggio: 'custom'
+  },
+];
+
+const DEFAULT_PATTERN_ID = 'block';
+
+const getRhythmPattern = (id: string | undefined) =>
+  RHYTHM_PATTERNS.find(p => p.id === id) || RHYTHM_PATTERNS.find(p => p.id === DEFAULT_PATTERN_ID)!;
+
+// Resolves a selector into absolute string indices of the voicing
+const selectStrings = (selector: StringSelector, played: number[]): number[] => {
+  if (played.length === 0) return [];
+  if (selector === 'all') return played;
+  if (selector === 'bass') return [played[0]];
+  if (selector === 'altBass') return [played[Math.min(played.length - 1, played.length >= 6 ? 2 : 1)]];
+  if (selector === 'treble') return played.slice(-3);
+  const picked = selector
+    .map(pos => played[pos < 0 ? played.length + pos : pos])
+    .filter((s): s is number => s !== undefined);
+  return Array.from(new Set(picked)).sort((a, b) => a - b);
+};
+
+// Arpeggio patterns are expanded per voicing because they depend on which strings sound.
+// `customOrder` holds absolute string indices (0 = lowest string); muted strings are skipped.
+const expandPattern = (pattern: RhythmPattern, played: number[], customOrder: number[]): PatternHit[] => {
+  if (!pattern.arpeggio) return pattern.hits;
+  let order = played;
+  if (pattern.arpeggio === 'down') order = [...played].reverse();
+  if (pattern.arpeggio === 'custom') order = customOrder.filter(s => played.includes(s));
+  if (order.length === 0) return [];
+  const steps = pattern.subdivision * pattern.lengthBeats;
+  return Array.from({ length: steps }, (_, step) => ({
+    step,
+    direction: 'pluck' as StrumDirection,
+    velocity: step % pattern.subdivision === 0 ? 0.8 : 0.65,
+    strings: [order[step % order.length]],
+    hold: steps - step // Arpeggios let every note ring to the end of the cycle
+  }));
+};
+
+// Schedules a pattern over `duration` seconds using the voicing's frets
+const playPattern = (
+  frets: number[],
+  pattern: RhythmPattern,
+  startTime: number,
+  duration: number,
+  secondsPerBeat: number,
+  customOrder: number[] = [],
+  output: Pick<StrumOptions, 'target' | 'voice'> = {},
+  tuning: TuningString[] = GUITAR_TUNING
+) => {
+  const played = frets.map((f, s) => f === -1 ? -1 : s).filter(s => s !== -1);
+  const hits = [...expandPattern(pattern, played, customOrder)].sort((a, b) => a.step - b.step);
+  if (hits.length === 0) return;
+
+  const stepLength = secondsPerBeat / pattern.subdivision;
+  const cycleSteps = pattern.subdivision * pattern.lengthBeats;
+  const endTime = startTime + duration;
+
+  for (let cycle = 0; startTime + cycle * cycleSteps * stepLength < endTime; cycle++) {
+    hits.forEach((hit, i) => {
+      const absStep = cycle * cycleSteps + hit.step;
+      const time = startTime + absStep * stepLength;
+      if (time >= endTime - 0.001) return;
+
+      const nextStep = i + 1 < hits.length ? cycle * cycleSteps + hits[i + 1].step : (cycle + 1) * cycleSteps + hits[0].step;
+      const ringSteps = hit.hold ?? (nextStep - absStep);
+      const sustain = Math.min(ringSteps * stepLength, endTime - time);
+
+      const notes = selectStrings(hit.strings || 'all', played).flatMap(s => {
+        const n = getNoteAtFret(s, frets[s], tuning);
+        return n ? [{ ...n, string: s }] : [];
+      });
+      strumChord(notes, time, { direction: hit.direction, velocity: hit.velocity, muted: hit.muted, sustain, ...output });
+    });
+  }
 };
 
 // --- MUSIC THEORY ENGINE ---
 
 const ALL_NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 
+// --- SPELLING ---
+// ALL_NOTES is only used for pitch-class maths. Anything shown to the user is spelled
+// from letter names: every scale degree gets its own letter, so F major has Bb (not A#)
+// and D# major has F## (double sharp) rather than repeating a letter.
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_PITCHES = [0, 2, 4, 5, 7, 9, 11];
+
+// Key roots offered in the picker, flat and sharp spellings both available
+const KEY_ROOTS = ['C', 'C#', 'Db', 'D', 'D#', 'Eb', 'E', 'F', 'F#', 'Gb', 'G', 'G#', 'Ab', 'A', 'A#', 'Bb', 'B'];
+
+// Pitch class (0-11) of any spelled note: 'C', 'Bb', 'F##', 'Dbb'. Returns -1 for junk.
+const getPitchClass = (note: string): number => {
+  const letterIdx = LETTERS.indexOf(note.charAt(0).toUpperCase());
+  if (letterIdx === -1) return -1;
+  let pc = LETTER_PITCHES[letterIdx];
+  for (const acc of note.slice(1)) {
+    if (acc === '#') pc++;
+    else if (acc === 'b') pc--;
+    else return -1;
+  }
+  return (pc + 120) % 12;
+};
+
+// Writes pitch class `pc` using the given letter, adding whatever accidentals it needs
+const spellWithLetter = (letterIdx: number, pc: number): string => {
+  const letter = LETTERS[letterIdx % 7];
+  const diff = ((pc - LETTER_PITCHES[letterIdx % 7] + 18) % 12) - 6; // -6..5
+  return letter + (diff > 0 ? '#'.repeat(diff) : 'b'.repeat(-diff));
+};
+
+// Moves a spelled note up by `letterSteps` letters and `semitones` semitones,
+// e.g. transposeNote('Eb', 2, 4) = 'G' (a major third), transposeNote('Eb', 1, 1) = 'Fb'
+const transposeNote = (note: string, letterSteps: number, semitones: number): string => {
+  const letterIdx = LETTERS.indexOf(note.charAt(0).toUpperCase());
+  return spellWithLetter(((letterIdx + letterSteps) % 7 + 7) % 7, getPitchClass(note) + semitones);
+};
+
+const spellScale = (root: string, pattern: number[]): string[] =>
+  pattern.map((interval, i) => transposeNote(root, i, interval));
+
+// Spells a pitch class without a letter context: borrows the spelling from the given
+// notes (chord tones, then scale) if one matches, else follows the key's accidentals.
+const spellPitchClass = (pc: number, context: string[]): string => {
+  const match = context.find(n => getPitchClass(n) === pc);
+  if (match) return match;
+  const preferFlats = context.some(n => n.includes('b')) && !context.some(n => n.includes('#'));
+  const sharp = ALL_NOTES[pc];
+  if (!sharp.includes('#') || !preferFlats) return sharp;
+  return spellWithLetter(LETTERS.indexOf(sharp.charAt(0)) + 1, pc);
+};
+
+const isSameNote = (a: string, b: string) => getPitchClass(a) === getPitchClass(b);
+
+// Chart-friendly enharmonic for chromatic roots: Ebb -> D, Fb -> E, B# -> C
+const simplifyNote = (note: string): string => {
+  if (!/bb|##/.test(note) && !['Cb', 'Fb', 'E#', 'B#'].includes(note)) return note;
+  const pc = getPitchClass(note);
+  const sharp = ALL_NOTES[pc];
+  if (!sharp.includes('#') || note.includes('#')) return sharp;
+  return spellWithLetter(LETTERS.indexOf(sharp.charAt(0)) + 1, pc);
+};
+
 const SCALE_PATTERNS: Record<string, number[]> = {
   'Major': [0, 2, 4, 5, 7, 9, 11],
   'Natural Minor': [0, 2, 3, 5, 7, 8, 10],
@@ -82,6 +617,76 @@ const MUSIC_STYLES = [
 
 const ROMAN_NUMERALS = ['i', 'ii', 'iii', 'iv', 'v', 'vi', 'vii'];
 
+// Numeral without its quality suffix: 'bVIIMaj7' -> 'bVII', 'iiø7' -> 'ii'
+const getRomanBase = (roman: string): string => roman.match(/^[b#]*[ivIV]+/)?.[0] || roman;
+
+// Scale degree (1-7) of a roman numeral such as 'bVII', 'iv' or '#iv°'; 0 if none
+const romanToDegree = (roman: string): number => {
+  const match = roman.replace(/^[b#]+/, '').match(/^(vii|vi|v|iv|iii|ii|i)/i);
+  return match ? ROMAN_NUMERALS.indexOf(match[1].toLowerCase()) + 1 : 0;
+};
+
+// Chord formulas as scale-degree labels relative to the root (R = root).
+// Each label carries both the semitone distance and the letter distance, so
+// spellChord gives Eb-G-Bb-Db for Eb7 and B-D#-F#-A#-C# for Bmaj9.
+const CHORD_FORMULAS: Record<string, string[]> = {
+  // TRIADS
+  '': ['R', '3', '5'],
+  'm': ['R', 'b3', '5'],
+  'dim': ['R', 'b3', 'b5'],
+  'aug': ['R', '3', '#5'],
+  // SUSPENDED & ADD
+  'sus4': ['R', '4', '5'],
+  'sus2': ['R', '2', '5'],
+  'add9': ['R', '3', '5', '9'],
+  'madd9': ['R', 'b3', '5', '9'],
+  '6': ['R', '3', '5', '6'],
+  'm6': ['R', 'b3', '5', '6'],
+  // 7TH CHORDS
+  'maj7': ['R', '3', '5', '7'],
+  'm7': ['R', 'b3', '5', 'b7'],
+  '7': ['R', '3', '5', 'b7'],
+  '7sus4': ['R', '4', '5', 'b7'],
+  'mMaj7': ['R', 'b3', '5', '7'],
+  'maj7#5': ['R', '3', '#5', '7'],
+  'm7b5': ['R', 'b3', 'b5', 'b7'],
+  'dim7': ['R', 'b3', 'b5', 'bb7'],
+  // EXTENSIONS
+  'maj9': ['R', '3', '5', '7', '9'],
+  'm9': ['R', 'b3', '5', 'b7', '9'],
+  '9': ['R', '3', '5', 'b7', '9'],
+  '13': ['R', '3', '5', 'b7', '9', '13'],
+  '7b9': ['R', '3', '5', 'b7', 'b9'],
+  '7#9': ['R', '3', '5', 'b7', '#9'],
+};
+
+// 'b7' -> 10 semitones / 6 letters above the root, '#11' -> 18 / 3, 'bb7' -> 9 / 6
+const parseDegree = (label: string): { semitones: number, steps: number } => {
+  const match = label.match(/^([b#]*)(\d+|R)$/);
+  if (!match) return { semitones: 0, steps: 0 };
+  const number = match[2] === 'R' ? 1 : Number(match[2]);
+  const steps = (number - 1) % 7;
+  const octave = Math.floor((number - 1) / 7) * 12;
+  const shift = [...match[1]].reduce((acc, a) => acc + (a === '#' ? 1 : -1), 0);
+  return { semitones: LETTER_PITCHES[steps] + octave + shift, steps };
+};
+
+const getChordFormula = (quality: string): string[] => CHORD_FORMULAS[quality] || CHORD_FORMULAS[''];
+
+// Every chord tone of `root` + `quality`, spelled, in formula order (root first)
+const spellChord = (root: string, quality: string): string[] =>
+  getChordFormula(quality).map(label => {
+    const { semitones, steps } = parseDegree(label);
+    return transposeNote(root, steps, semitones);
+  });
+
+// Formula label ('R', 'b3', '5', 'b7', '9'...) of every pitch class in a chord
+const getChordIntervals = (root: string, quality: string): Map<number, string> => {
+  const tones = spellChord(root, quality);
+  const formula = getChordFormula(quality);
+  return new Map(tones.map((tone, i) => [getPitchClass(tone), formula[i] === '1' ? 'R' : formula[i]]));
+};
+
 // Offsets from the barre/nut for common shapes
 // -1 means mute, numbers are relative fret adds
 const CHORD_SHAPES: Record<string, { eShape: number[], aShape: number[] }> = {
@@ -98,6 +703,12 @@ const CHORD_SHAPES: Record<string, { eShape: number[], aShape: number[] }> = {
         eShape: [0, 1, 2, 0, -1, -1],
         aShape: [-1, 0, 1, 2, 1, -1]
     },
+    'aug': { // Augmented Triad
+        // E+: 0 3 2 1 1 0
+        eShape: [0, 3, 2, 1, 1, 0],
+        // A+: x 0 3 2 2 1
+        aShape: [-1, 0, 3, 2, 2, 1]
+    },
     // SUSPENDED & ADD
     'sus4': {
         // Esus4: 0 2 2 2 0 0
@@ -134,7 +745,12 @@ const CHORD_SHAPES: Record<string, { eShape: number[], aShape: number[] }> = {
         aShape: [-1, 0, 2, 0, 3, 0]
     },
     'm7b5': { eShape: [0, -1, 0, 0, -1, -1], aShape: [-1, 0, 1, 0, 1, -1] },
-    'dim7': { eShape: [0, 1, 0, 0, -1, -1], aShape: [-1, 0, 1, 2, 1, -1] }
+    'dim7': { eShape: [0, 1, 0, 0, -1, -1], aShape: [-1, 0, 1, 2, 1, -1] },
+    // EXTENSIONS
+    'maj9': { eShape: [0, 2, 1, 1, 0, 2], aShape: [-1, 0, 2, 4, 2, 4] },
+    'm9': { eShape: [0, 2, 0, 0, 0, 2], aShape: [-1, 0, 2, 4, 1, 3] },
+    '9': { eShape: [0, 2, 0, 1, 0, 2], aShape: [-1, 0, 2, 4, 2, 3] },
+    '13': { eShape: [0, 2, 0, 1, 2, 0], aShape: [-1, 0, 2, 0, 2, 2] }
 };
 
 // Inversion Shapes: offsets relative to the Bass Note Fret
@@ -156,10 +772,13 @@ const INVERSION_SHAPES: Record<string, number[]> = {
     'Maj_5_E': [0, 0, 2, 2, 2, 0],
 };
 
+type CagedShape = 'C' | 'A' | 'G' | 'E' | 'D';
+
 interface Voicing {
   name: string;
   frets: number[]; // 6 strings, -1 for mute, 0 for open
   baseFret?: number; // For rendering positioning
+  caged?: CagedShape; // Which CAGED form a root-position voicing belongs to
 }
 
 interface Chord {
@@ -174,29 +793,152 @@ interface Chord {
   activeVoicingIdx: number;
   scaleDegree: number;
   isDiatonic: boolean;
-  category: 'Team' | 'Variation' | 'Wildcard';
+  category: 'Team' | 'Variation' | 'Wildcard' | 'Secondary';
+  sourceModes?: string[]; // Parallel modes a borrowed chord comes from
+  resolvesTo?: string; // Root this chord pulls toward (secondary dominants, their ii chords, tritone subs)
+  patternId?: string; // Rhythm pattern override, falls back to the progression's pattern
+  locked?: boolean; // Keep this voicing when optimizing voice leading
+}
+
+// Tunings list open strings, low to high. Every fret calculation takes the tuning it should use;
+// a capo is folded in by raising the open strings, so frets stay relative to the capo.
+
+interface TuningString {
+  note: string;
+  octave: number;
+  firstFret?: number; // Short strings (the banjo's drone) can't be fretted below this
+}
+
+interface Tuning {
+  id: string;
+  name: string;
+  strings: TuningString[];
 }
 
+const parseTuningString = (text: string): TuningString | null => {
+  const match = text.trim().match(/^([A-G][#b]?)(-?\d)$/);
+  return match ? { note: match[1], octave: Number(match[2]) } : null;
+};
+
+const tuningFromText = (text: string): TuningString[] => text.split(/\s+/).map(t => parseTuningString(t)!);
+
 // Guitar tuning: E2, A2, D3, G3, B3, E4
-const GUITAR_TUNING = [
-  { note: 'E', octave: 2 },
-  { note: 'A', octave: 2 },
-  { note: 'D', octave: 3 },
-  { note: 'G', octave: 3 },
-  { note: 'B', octave: 3 },
-  { note: 'E', octave: 4 },
+const GUITAR_TUNING = tuningFromText('E2 A2 D3 G3 B3 E4');
+
+const GUITAR_TUNINGS: Tuning[] = [
+  { id: 'standard', name: 'Standard', strings: GUITAR_TUNING },
+  { id: 'drop-d', name: 'Drop D', strings: tuningFromText('D2 A2 D3 G3 B3 E4') },
+  { id: 'dadgad', name: 'DADGAD', strings: tuningFromText('D2 A2 D3 G3 A3 D4') },
+  { id: 'open-g', name: 'Open G', strings: tuningFromText('D2 G2 D3 G3 B3 D4') },
+  { id: 'open-d', name: 'Open D', strings: tuningFromText('D2 A2 D3 F#3 A3 D4') },
+  { id: 'half-down', name: 'Half-Step Down', strings: tuningFromText('Eb2 Ab2 Db3 Gb3 Bb3 Eb4') },
+  { id: 'baritone', name: 'Baritone (B)', strings: tuningFromText('B1 E2 A2 D3 F#3 B3') },
+  { id: 'seven-string', name: '7-String', strings: tuningFromText('B1 E2 A2 D3 G3 B3 E4') },
 ];
 
-const getNoteAtFret = (stringIdx: number, fret: number) => {
+// Everything the engine needs to know about a fretted instrument. Chord instruments get
+// full voicings; bass instruments get root, power and shell lines instead. Re-entrant
+// and short-necked instruments search with any chord tone in the bass.
+interface Instrument {
+  id: string;
+  name: string;
+  tunings: Tuning[]; // First one is the default
+  frets: number;
+  role: 'chords' | 'bass';
+  search?: Partial<VoicingSearchOptions>; // Voicing search defaults that suit the instrument
+}
+
+// 5-string banjo: the short 5th string is listed first (lowest index) even though it sounds highest
+const withBanjoDrone = (strings: TuningString[]): TuningString[] =>
+  strings.map((s, i) => i === 0 ? { ...s, firstFret: 5 } : s);
+
+const INSTRUMENTS: Instrument[] = [
+  { id: 'guitar', name: 'Guitar', tunings: GUITAR_TUNINGS, frets: 22, role: 'chords' },
+  {
+    id: 'ukulele', name: 'Ukulele', frets: 15, role: 'chords', search: { bass: 'any' }, tunings: [
+      { id: 'uke-standard', name: 'Standard (gCEA)', strings: tuningFromText('G4 C4 E4 A4') },
+      { id: 'uke-low-g', name: 'Low G (GCEA)', strings: tuningFromText('G3 C4 E4 A4') },
+      { id: 'uke-d', name: 'D Tuning (aDF#B)', strings: tuningFromText('A4 D4 F#4 B4') },
+      { id: 'uke-baritone', name: 'Baritone (DGBE)', strings: tuningFromText('D3 G3 B3 E4') },
+    ]
+  },
+  {
+    id: 'bass-4', name: 'Bass (4-string)', frets: 20, role: 'bass', tunings: [
+      { id: 'bass-standard', name: 'Standard', strings: tuningFromText('E1 A1 D2 G2') },
+      { id: 'bass-drop-d', name: 'Drop D', strings: tuningFromText('D1 A1 D2 G2') },
+    ]
+  },
+  {
+    id: 'bass-5', name: 'Bass (5-string)', frets: 24, role: 'bass', tunings: [
+      { id: 'bass5-standard', name: 'Standard', strings: tuningFromText('B0 E1 A1 D2 G2') },
+    ]
+  },
+  {
+    id: 'mandolin', name: 'Mandolin', frets: 17, role: 'chords', search: { bass: 'any', maxSpan: 5 }, tunings: [
+      { id: 'mandolin-standard', name: 'Standard (GDAE)', strings: tuningFromText('G3 D4 A4 E5') },
+    ]
+  },
+  {
+    id: 'banjo', name: 'Banjo (5-string)', frets: 22, role: 'chords', search: { bass: 'any' }, tunings: [
+      { id: 'banjo-open-g', name: 'Open G (gDGBD)', strings: withBanjoDrone(tuningFromText('G4 D3 G3 B3 D4')) },
+      { id: 'banjo-double-c', name: 'Double C (gCGCD)', strings: withBanjoDrone(tuningFromText('G4 C3 G3 C4 D4')) },
+    ]
+  },
+];
+
+const getInstrument = (id: string) => INSTRUMENTS.find(i => i.id === id) || INSTRUMENTS[0];
+
+const CUSTOM_TUNING_ID = 'custom';
+
+// Custom tunings are typed as note+octave per string, low to high: "D2 A2 D3 G3 B3 D4"
+const parseTuning = (text: string): TuningString[] | null => {
+  const strings = text.trim().split(/[\s,]+/).map(parseTuningString);
+  if (strings.length < 4 || strings.length > 8 || strings.some(s => !s)) return null;
+  return strings as TuningString[];
+};
+
+const formatTuning = (strings: TuningString[]) => strings.map(s => `${s.note}${s.octave}`).join(' ');
+
+const getOpenPitch = (string: TuningString) => (string.octave + 1) * 12 + getPitchClass(string.note);
+
+const applyCapo = (strings: TuningString[], capo: number): TuningString[] =>
+  capo === 0 ? strings : strings.map(s => {
+    const pitch = getOpenPitch(s) + capo;
+    return { ...s, note: ALL_NOTES[pitch % 12], octave: Math.floor(pitch / 12) - 1 };
+  });
+
+// Open strings that actually sound: the chosen (or custom) tuning raised by the capo
+const getSoundingTuning = (instrument: Instrument, tuningId: string, customText: string, capo: number): TuningString[] => {
+  const preset = instrument.tunings.find(t => t.id === tuningId);
+  const strings = preset ? preset.strings : parseTuning(customText) || instrument.tunings[0].strings;
+  return applyCapo(strings, capo);
+};
+
+// Index of the string playing the low-E role when the top six strings keep standard
+// intervals (standard, half-step down, any capo, 7-string), or -1 if the shapes don't apply
+const getStandardOffset = (tuning: TuningString[]): number => {
+  const offset = tuning.length - 6;
+  if (offset < 0) return -1;
+  const steps = tuning.slice(offset).slice(1).map((s, i) => getOpenPitch(s) - getOpenPitch(tuning[offset + i]));
+  return steps.join(',') === '5,5,5,4,5' ? offset : -1;
+};
+
+const getNoteAtFret = (stringIdx: number, fret: number, tuning: TuningString[] = GUITAR_TUNING) => {
   if (fret === -1) return null;
-  const openNote = GUITAR_TUNING[stringIdx];
-  const openNoteIdx = ALL_NOTES.indexOf(openNote.note);
+  const openNote = tuning[stringIdx];
+  const openNoteIdx = getPitchClass(openNote.note);
   const totalSemis = openNoteIdx + fret;
   const noteName = ALL_NOTES[totalSemis % 12];
   const octaveBoost = Math.floor(totalSemis / 12);
   return { note: noteName, octave: openNote.octave + octaveBoost };
 };
 
+// Absolute pitch (MIDI note number) of a fretted string
+const getPitchAtFret = (stringIdx: number, fret: number, tuning: TuningString[] = GUITAR_TUNING): number | null => {
+  const n = getNoteAtFret(stringIdx, fret, tuning);
+  return n ? (n.octave + 1) * 12 + getPitchClass(n.note) : null;
+};
+
 // Helper to shift a shape to a specific root fret
 const createVoicingFromShape = (shape: number[], rootFret: number): number[] => {
     return shape.map(f => {
@@ -210,247 +952,2379 @@ const createVoicingFromShape = (shape: number[], rootFret: number): number[] =>
     });
 };
 
-const createInversionVoicing = (shape: number[], bassFret: number): number[] | null => {
-    const frets = shape.map(f => {
-        if (f === -1) return -1;
-        return f + bassFret;
-    });
-    // Check validity: No negative frets allowed unless it's open string logic
-    if (frets.some(f => f < 0 && f !== -1)) return null;
-    return frets;
+const createInversionVoicing = (shape: number[], bassFret: number): number[] | null => {
+    const frets = shape.map(f => {
+        if (f === -1) return -1;
+        return f + bassFret;
+    });
+    // Check validity: No negative frets allowed unless it's open string logic
+    if (frets.some(f => f < 0 && f !== -1)) return null;
+    return frets;
+};
+
+const getQualityFromIntervals = (third: number, fifth: number, seventh: number | null): string => {
+    if (seventh !== null) {
+      if (third === 4 && fifth === 7 && seventh === 11) return 'maj7';
+      if (third === 4 && fifth === 7 && seventh === 10) return '7'; // Dom7
+      if (third === 3 && fifth === 7 && seventh === 10) return 'm7';
+      if (third === 3 && fifth === 7 && seventh === 11) return 'mMaj7'; // Jazz Minor I
+      if (third === 3 && fifth === 6 && seventh === 10) return 'm7b5'; // Half Dim
+      if (third === 3 && fifth === 6 && seventh === 9) return 'dim7'; // Full Dim
+      if (third === 4 && fifth === 8 && seventh === 11) return 'maj7#5'; // Jazz Minor III
+    }
+    // Fallback to Triads
+    if (third === 4 && fifth === 7) return '';
+    if (third === 3 && fifth === 7) return 'm';
+    if (third === 3 && fifth === 6) return 'dim';
+    if (third === 4 && fifth === 8) return 'aug';
+    return '';
+};
+
+// --- VOICING SEARCH ---
+// Enumerates every fingering of a chord's pitch classes inside a sliding fret window,
+// keeps the ones a hand can actually play and ranks them by how comfortable they are.
+
+interface VoicingSearchOptions {
+  maxSpan: number; // Highest fretted note minus lowest fretted note
+  maxFingers: number; // A barre across the lowest fret counts as one finger
+  bass: 'root' | 'any' | string; // 'root', 'any', or a note name for slash chords
+  requireRoot: boolean;
+  allowOmitFifth: boolean;
+  strings: number[]; // String indices allowed to sound (0 = low E)
+  minStrings: number; // Fewest sounding strings
+  maxFret: number; // Highest fret the search window may reach
+  allowInnerMutes: boolean; // Muted strings between sounding ones (harder to strum)
+}
+
+const DEFAULT_VOICING_SEARCH: VoicingSearchOptions = {
+  maxSpan: 3,
+  maxFingers: 4,
+  bass: 'root',
+  requireRoot: true,
+  allowOmitFifth: true,
+  strings: [0, 1, 2, 3, 4, 5],
+  minStrings: 4,
+  maxFret: 15,
+  allowInnerMutes: false,
+};
+
+interface RankedVoicing extends Voicing {
+  score: number; // Lower is easier
+  fingers: number;
+}
+
+const countFingers = (frets: number[]): number => {
+  const fretted = frets.filter(f => f > 0);
+  if (fretted.length === 0) return 0;
+  const lowest = Math.min(...fretted);
+  const atLowest = frets.map((f, s) => f === lowest ? s : -1).filter(s => s !== -1);
+  // A barre only works if nothing between its ends sits below it (open strings would be covered)
+  const first = atLowest[0];
+  const last = atLowest[atLowest.length - 1];
+  const canBarre = atLowest.length > 1 && frets.slice(first, last + 1).every(f => f === -1 || f >= lowest);
+  return (canBarre ? 1 : atLowest.length) + fretted.filter(f => f > lowest).length;
+};
+
+interface Fingering {
+  fingers: number[]; // Per string: 1-4 for fretted notes, 0 for open or muted strings
+  barre?: { fret: number, fromString: number, toString: number };
+}
+
+// Puts the index finger on the lowest fret (barring it when several strings share it and
+// the grip needs the spare fingers) and gives every higher fret the next free finger
+const assignFingering = (frets: number[]): Fingering => {
+  const fingers = frets.map(() => 0);
+  const fretted = frets.filter(f => f > 0);
+  if (fretted.length === 0) return { fingers };
+
+  const lowest = Math.min(...fretted);
+  const atLowest = frets.map((f, s) => f === lowest ? s : -1).filter(s => s !== -1);
+  const first = atLowest[0];
+  const last = atLowest[atLowest.length - 1];
+  const canBarre = atLowest.length > 1 && frets.slice(first, last + 1).every(f => f === -1 || f >= lowest);
+  // Five or more fretted notes, or four-plus strings all on one fret (a flat barre)
+  const needsBarre = canBarre && (fretted.length > 4 || (atLowest.length >= 4 && atLowest.length === fretted.length));
+
+  let lastFinger = 0;
+  if (needsBarre) {
+    atLowest.forEach(s => { fingers[s] = 1; });
+    lastFinger = 1;
+  }
+  const frettedFrets = Array.from(new Set(fretted)).sort((a, b) => a - b);
+  frettedFrets.forEach(fret => {
+    if (needsBarre && fret === lowest) return;
+    const ideal = fret - lowest + 1;
+    frets.forEach((f, s) => {
+      if (f !== fret) return;
+      lastFinger = Math.min(4, Math.max(ideal, lastFinger + 1));
+      fingers[s] = lastFinger;
+    });
+  });
+
+  return needsBarre ? { fingers, barre: { fret: lowest, fromString: first, toString: last } } : { fingers };
+};
+
+// CAGED name of a root-position voicing, from where the root sits and what is stacked on it
+const getCagedShape = (frets: number[], rootPc: number, tuning: TuningString[] = GUITAR_TUNING): CagedShape | undefined => {
+  const offset = getStandardOffset(tuning);
+  if (offset === -1) return undefined;
+  const sounding = frets.map((f, s) => ({ s, pc: f === -1 ? -1 : getPitchClass(getNoteAtFret(s, f, tuning)!.note) })).filter(x => x.pc !== -1);
+  if (sounding.length < 2 || sounding[0].pc !== rootPc) return undefined;
+  const above = (sounding[1].pc - rootPc + 12) % 12;
+  const isThird = above === 3 || above === 4;
+  const isFifth = above === 7 || above === 6;
+  const bassString = sounding[0].s - offset;
+  if (bassString === 0) return isFifth ? 'E' : isThird ? 'G' : undefined;
+  if (bassString === 1) return isFifth ? 'A' : isThird ? 'C' : undefined;
+  if (bassString === 2) return 'D';
+  return undefined;
+};
+
+// Where the five CAGED forms of a chord sit, as fret ranges measured from the E-form root.
+// For C: C form 0-3, A form 3-6, G form 5-8, E form 8-11, D form 10-13.
+const CAGED_REGIONS: { shape: CagedShape, offset: number }[] = [
+  { shape: 'E', offset: 0 },
+  { shape: 'D', offset: 2 },
+  { shape: 'C', offset: 4 },
+  { shape: 'A', offset: 7 },
+  { shape: 'G', offset: 9 },
+];
+
+const getCagedRegions = (rootPc: number, tuning: TuningString[], maxFret: number): { shape: CagedShape, start: number, end: number }[] => {
+  const offset = getStandardOffset(tuning);
+  if (offset === -1) return [];
+  const eRootFret = (rootPc - getPitchClass(tuning[offset].note) + 12) % 12;
+  const regions: { shape: CagedShape, start: number, end: number }[] = [];
+  CAGED_REGIONS.forEach(({ shape, offset: shift }) => {
+    // The pattern repeats every octave; include the copy that starts just below the nut
+    for (let start = (eRootFret + shift) % 12 - 12; start <= maxFret; start += 12) {
+      if (start + 3 < 0) continue;
+      regions.push({ shape, start: Math.max(0, start), end: Math.min(maxFret, start + 3) });
+    }
+  });
+  return regions.sort((a, b) => a.start - b.start);
+};
+
+const describeVoicing = (frets: number[], caged: CagedShape | undefined, bassNote: string | null, isRootBass: boolean): string => {
+  const fretted = frets.filter(f => f > 0);
+  const position = fretted.length ? Math.min(...fretted) : 0;
+  const isOpen = frets.includes(0) && position <= 3;
+  const where = isOpen ? 'Open' : `Fret ${position}`;
+  if (caged) return `${caged}-Shape (${where})`;
+  if (!isRootBass && bassNote) return `/${bassNote} (${where})`;
+  return `Voicing (${where})`;
+};
+
+const voicingSearchCache = new Map<string, RankedVoicing[]>();
+
+const findVoicings = (
+  root: string,
+  quality: string,
+  overrides: Partial<VoicingSearchOptions> = {},
+  tuning: TuningString[] = GUITAR_TUNING
+): RankedVoicing[] => {
+  const options = { ...DEFAULT_VOICING_SEARCH, strings: tuning.map((_, s) => s), ...overrides };
+  const cacheKey = `${root}|${quality}|${formatTuning(tuning)}|${JSON.stringify(options)}`;
+  const cached = voicingSearchCache.get(cacheKey);
+  if (cached) return cached;
+
+  const tones = spellChord(root, quality);
+  const formula = getChordFormula(quality);
+  const rootPc = getPitchClass(root);
+  const chordPcs = new Set(tones.map(getPitchClass));
+
+  // Tones that may be left out: the 5th (if allowed), the 9th under a 13th, and the root if not required
+  const optional = new Set<number>();
+  formula.forEach((label, i) => {
+    if (label === '5' && options.allowOmitFifth) optional.add(getPitchClass(tones[i]));
+    if (label === '9' && formula.includes('13')) optional.add(getPitchClass(tones[i]));
+  });
+  if (!options.requireRoot) optional.add(rootPc);
+  const required = Array.from(chordPcs).filter(pc => !optional.has(pc));
+
+  const bassPc = options.bass === 'root' ? rootPc : options.bass === 'any' ? -1 : getPitchClass(options.bass);
+  const stringCount = tuning.length;
+  const found = new Map<string, RankedVoicing>();
+
+  // Pitch and pitch class lookup per string and fret, so the inner loop never parses note names
+  const pitchAt = tuning.map((_, s) =>
+    Array.from({ length: options.maxFret + 1 }, (_, f) => getPitchAtFret(s, f, tuning)!));
+  const pcAt = pitchAt.map(frets => frets.map(p => p % 12));
+
+  const evaluate = (frets: number[]) => {
+    const soundingStrings = frets.map((f, s) => f === -1 ? -1 : s).filter(s => s !== -1);
+    if (soundingStrings.length < Math.min(options.minStrings, options.strings.length)) return;
+    if (!options.allowInnerMutes) {
+      const first = soundingStrings[0];
+      const last = soundingStrings[soundingStrings.length - 1];
+      if (frets.slice(first, last + 1).includes(-1)) return;
+    }
+    const pcs = soundingStrings.map(s => pcAt[s][frets[s]]);
+    if (!required.every(pc => pcs.includes(pc))) return;
+    // The bass is the lowest pitch, which isn't the lowest string in re-entrant tunings (ukulele, banjo)
+    const pitches = soundingStrings.map(s => pitchAt[s][frets[s]]);
+    const lowestPc = pcs[pitches.indexOf(Math.min(...pitches))];
+    if (bassPc !== -1 && lowestPc !== bassPc) return;
+
+    const fretted = frets.filter(f => f > 0);
+    const span = fretted.length ? Math.max(...fretted) - Math.min(...fretted) : 0;
+    if (span > options.maxSpan) return;
+    const fingers = countFingers(frets);
+    if (fingers > options.maxFingers) return;
+
+    const key = frets.join(',');
+    if (found.has(key)) return;
+
+    const position = fretted.length ? Math.min(...fretted) : 0;
+    const mutes = frets.filter(f => f === -1).length;
+    const opens = frets.filter(f => f === 0).length;
+    const isRootBass = lowestPc === rootPc;
+    const missing = Array.from(chordPcs).filter(pc => !pcs.includes(pc)).length;
+    const score = fingers
+      + span * 1.5
+      + position * 0.3
+      + mutes * 0.8
+      + missing * 0.75
+      + (fingers === 4 && span === 3 ? 1 : 0) // Full stretch with every finger down
+      + (opens > 0 && position > 3 ? 1.5 : 0) // Open strings against a stretched-out position
+      - (isRootBass ? 1 : 0);
+
+    const caged = isRootBass ? getCagedShape(frets, rootPc, tuning) : undefined;
+    const bassNote = spellPitchClass(lowestPc, tones);
+    found.set(key, {
+      name: describeVoicing(frets, caged, bassNote, isRootBass),
+      frets,
+      baseFret: position || 1,
+      caged,
+      score,
+      fingers
+    });
+  };
+
+  // Slide a window up the neck; on each string try mute, open, or any chord tone inside the window.
+  // Open strings only combine with first-position windows.
+  for (let windowStart = 1; windowStart + options.maxSpan <= options.maxFret; windowStart++) {
+    const choices: number[][] = [];
+    for (let s = 0; s < stringCount; s++) {
+      const opts = [-1];
+      if (options.strings.includes(s)) {
+        if (windowStart <= 2 && chordPcs.has(pcAt[s][0])) opts.push(0);
+        for (let f = Math.max(windowStart, tuning[s].firstFret ?? 0); f <= windowStart + options.maxSpan; f++) {
+          if (chordPcs.has(pcAt[s][f])) opts.push(f);
+        }
+      }
+      choices.push(opts);
+    }
+    const current: number[] = [];
+    const walk = (s: number) => {
+      if (s === stringCount) { evaluate([...current]); return; }
+      choices[s].forEach(f => {
+        current.push(f);
+        walk(s + 1);
+        current.pop();
+      });
+    };
+    walk(0);
+  }
+
+  const ranked = Array.from(found.values()).sort((a, b) => a.score - b.score);
+  voicingSearchCache.set(cacheKey, ranked);
+  return ranked;
+};
+
+// --- DROP VOICINGS ---
+// Jazz guitar 7th-chord grips. Start from a close-position inversion (four tones
+// stacked inside an octave), then drop the 2nd-highest (Drop 2) or 3rd-highest
+// (Drop 3) voice an octave and lay the result across a fixed set of strings.
+
+const DROP_QUALITIES = ['maj7', 'm7', '7', 'm7b5', 'dim7', 'mMaj7'];
+
+// String sets as string indices on a six-string, low to high (0 = low E).
+// Extra low strings (7-string) shift them up so the sets stay on the top six.
+const DROP_STRING_SETS: { drop: 2 | 3, strings: number[], label: string }[] = [
+  { drop: 2, strings: [2, 3, 4, 5], label: 'Str 4-1' },
+  { drop: 2, strings: [1, 2, 3, 4], label: 'Str 5-2' },
+  { drop: 2, strings: [0, 1, 2, 3], label: 'Str 6-3' },
+  { drop: 3, strings: [0, 2, 3, 4], label: 'Str 6,4-2' },
+  { drop: 3, strings: [1, 3, 4, 5], label: 'Str 5,3-1' },
+];
+
+const INVERSION_NAMES = ['Root', '1st Inv', '2nd Inv', '3rd Inv'];
+const DROP_MAX_FRET = 15;
+
+// Lowest placement of exact pitches (semitones above a bass of pitch class `bassPc`, one
+// per string, low to high) with a reachable span. Moving the bass up moves every fret up,
+// so the first fit is the lowest.
+const placeOnStrings = (bassPc: number, intervals: number[], strings: number[], maxSpan: number, tuning: TuningString[]): number[] | null => {
+  for (let f = 0; f <= DROP_MAX_FRET; f++) {
+    if (getPitchClass(getNoteAtFret(strings[0], f, tuning)!.note) !== bassPc) continue;
+    const bass = getPitchAtFret(strings[0], f, tuning)!;
+    const frets = intervals.map((interval, i) => bass + interval - getPitchAtFret(strings[i], 0, tuning)!);
+    if (frets.some(fret => fret < 0 || fret > DROP_MAX_FRET)) continue;
+    const fretted = frets.filter(fret => fret > 0);
+    const span = fretted.length ? Math.max(...fretted) - Math.min(...fretted) : 0;
+    if (span <= maxSpan) return frets;
+  }
+  return null;
+};
+
+const buildDropVoicings = (root: string, quality: string, tuning: TuningString[] = GUITAR_TUNING): Voicing[] => {
+  if (!DROP_QUALITIES.includes(quality) || tuning.length < 6) return [];
+  const offset = tuning.length - 6;
+  const tones = spellChord(root, quality).slice(0, 4).map(getPitchClass);
+  const voicings: Voicing[] = [];
+
+  DROP_STRING_SETS.forEach(set => {
+    tones.forEach((_, bassTone) => {
+      // Pick the close position whose dropped voice lands on the wanted bass tone
+      const closeStart = (bassTone + (set.drop === 2 ? 2 : 3)) % 4;
+      const closePcs = [0, 1, 2, 3].map(k => tones[(closeStart + k) % 4]);
+      // Stack the close position upward inside an octave, then lower the dropped voice by one
+      const close = closePcs.reduce<number[]>((acc, pc, k) =>
+        k === 0 ? [0] : [...acc, acc[k - 1] + ((pc - closePcs[k - 1] + 11) % 12 + 1)], []);
+      const dropped = set.drop === 2
+        ? [close[2] - 12, close[0], close[1], close[3]]
+        : [close[1] - 12, close[0], close[2], close[3]];
+      const strings = set.strings.map(s => s + offset);
+      const placed = placeOnStrings(closePcs[set.drop === 2 ? 2 : 1], dropped.map(p => p - dropped[0]), strings, 4, tuning);
+      if (!placed) return;
+
+      const frets = tuning.map(() => -1);
+      strings.forEach((s, i) => { frets[s] = placed[i]; });
+      const fretted = placed.filter(f => f > 0);
+      voicings.push({
+        name: `Drop ${set.drop} · ${INVERSION_NAMES[bassTone]} · ${set.label}`,
+        frets,
+        baseFret: fretted.length ? Math.min(...fretted) : 1
+      });
+    });
+  });
+  return voicings;
+};
+
+// --- BASS LINES ---
+// Bass players rarely strum full chords. Instead each chord gets the root on every string,
+// plus root-5th, octave and shell (root, 7th, 10th) double stops within one hand position.
+
+const BASS_SHAPES: { name: string, degrees: number[] }[] = [
+  { name: 'Root', degrees: [1] },
+  { name: 'Root + 5th', degrees: [1, 5] },
+  { name: 'Octave', degrees: [1, 8] },
+  { name: 'Shell', degrees: [1, 7, 10] },
+];
+
+const BASS_MAX_ROOT_FRET = 12;
+
+const buildBassVoicings = (root: string, quality: string, tuning: TuningString[]): Voicing[] => {
+  const tones = spellChord(root, quality);
+  const formula = getChordFormula(quality);
+  const rootPc = getPitchClass(root);
+  // Pitch class of a chord degree (3rd, 5th, 7th...), octaves folded; null if the chord lacks it
+  const degreePc = (degree: number): number | null => {
+    const wanted = ((degree - 1) % 7) + 1;
+    const idx = formula.findIndex(label => parseDegree(label).steps % 7 === wanted - 1);
+    return idx === -1 ? null : getPitchClass(tones[idx]);
+  };
+
+  const voicings: Voicing[] = [];
+  BASS_SHAPES.forEach(shape => {
+    const pcs = shape.degrees.map(d => d === 8 ? rootPc : degreePc(d));
+    if (pcs.some(pc => pc === null)) return;
+
+    tuning.forEach((_, rootString) => {
+      const rootFret = Array.from({ length: BASS_MAX_ROOT_FRET + 1 }, (_, f) => f)
+        .find(f => getPitchAtFret(rootString, f, tuning)! % 12 === rootPc && (f === 0 || f >= (tuning[rootString].firstFret ?? 0)));
+      if (rootFret === undefined) return;
+
+      // Stack the remaining tones on higher strings, rising in pitch, inside a four-fret reach
+      const frets = tuning.map(() => -1);
+      frets[rootString] = rootFret;
+      let prevString = rootString;
+      let prevPitch = getPitchAtFret(rootString, rootFret, tuning)!;
+      const low = Math.max(1, rootFret - 1);
+      for (const pc of pcs.slice(1)) {
+        let placed = false;
+        for (let s = prevString + 1; s < tuning.length && !placed; s++) {
+          const candidates = [0, ...Array.from({ length: 5 }, (_, i) => low + i)];
+          const fret = candidates.find(f => {
+            const pitch = getPitchAtFret(s, f, tuning)!;
+            return pitch % 12 === pc && pitch > prevPitch && pitch - prevPitch <= 16;
+          });
+          if (fret === undefined) continue;
+          frets[s] = fret;
+          prevString = s;
+          prevPitch = getPitchAtFret(s, fret, tuning)!;
+          placed = true;
+        }
+        if (!placed) return;
+      }
+
+      const fretted = frets.filter(f => f > 0);
+      voicings.push({
+        name: `${shape.name} · String ${tuning.length - rootString} (${rootFret === 0 ? 'Open' : `Fret ${rootFret}`})`,
+        frets,
+        baseFret: fretted.length ? Math.min(...fretted) : 1
+      });
+    });
+  });
+  return voicings;
+};
+
+const stripRanking = ({ score, fingers, ...voicing }: RankedVoicing): Voicing => voicing;
+
+// Tops up a chord's voicings from the search: the best voicing of every CAGED form
+// the templates didn't cover, then the easiest alternatives if it is still short
+const addSearchedVoicings = (
+  voicings: Voicing[],
+  root: string,
+  quality: string,
+  tuning: TuningString[],
+  search: Partial<VoicingSearchOptions> = {},
+  minCount: number = 4
+) => {
+  const results = findVoicings(root, quality, search, tuning);
+  const has = (frets: number[]) => voicings.some(v => v.frets.join(',') === frets.join(','));
+  (['C', 'A', 'G', 'E', 'D'] as CagedShape[]).forEach(shape => {
+    if (voicings.some(v => v.caged === shape)) return;
+    const best = results.find(r => r.caged === shape);
+    if (best && !has(best.frets)) voicings.push(stripRanking(best));
+  });
+  for (const result of results) {
+    if (voicings.length >= minCount) break;
+    if (!has(result.frets)) voicings.push(stripRanking(result));
+  }
+};
+
+// Shape voicings, inversions, searched voicings and drop voicings of a chord in a tuning.
+// The templates are standard-tuning grips, so other tunings rely on the search alone.
+const buildVoicings = (n: string, q: string, tuning: TuningString[] = GUITAR_TUNING, instrument: Instrument = INSTRUMENTS[0]): Voicing[] => {
+    if (instrument.role === 'bass') return buildBassVoicings(n, q, tuning);
+    const voicings: Voicing[] = [];
+    const cNotes = spellChord(n, q);
+    const thirdNote = cNotes[1];
+    const fifthNote = cNotes[2];
+    // Qualities without a template (mMaj7, 7b9, ...) rely on the voicing search below
+    const offset = getStandardOffset(tuning);
+    const shapeTemplate = offset === -1 ? undefined : CHORD_SHAPES[q];
+    const eStringIdx = offset === -1 ? 0 : getPitchClass(tuning[offset].note);
+    const aStringIdx = offset === -1 ? 0 : getPitchClass(tuning[offset + 1].note);
+    // Open notes of the strings playing the E and A roles (differ in baritone or capo tunings)
+    const eName = offset === -1 ? 'E' : tuning[offset].note;
+    const aName = offset === -1 ? 'A' : tuning[offset + 1].note;
+    // Six-string templates get muted strings below them on a 7-string
+    const pad = (frets: number[]) => [...Array(Math.max(offset, 0)).fill(-1), ...frets];
+
+    if (shapeTemplate) {
+        // E-Shape
+        const eShapeRootFret = (getPitchClass(n) - eStringIdx + 12) % 12; 
+        const eFrets = pad(createVoicingFromShape(shapeTemplate.eShape, eShapeRootFret));
+        const isEBarre = eFrets.some(fr => fr > 0) && eShapeRootFret > 0;
+        voicings.push({
+            name: !isEBarre ? "Open / Bottom" : `Root on ${eName} (Fret ${eShapeRootFret || 12})`,
+            frets: eFrets,
+            baseFret: Math.min(...eFrets.filter(fr => fr !== -1)) || 1,
+            caged: 'E'
+        });
+
+        // A-Shape
+        const aShapeRootFret = (getPitchClass(n) - aStringIdx + 12) % 12;
+        const aFrets = pad(createVoicingFromShape(shapeTemplate.aShape, aShapeRootFret));
+        const isABarre = aFrets.some(fr => fr > 0) && aShapeRootFret > 0;
+        voicings.push({
+            name: !isABarre ? "Open A-Style" : `Root on ${aName} (Fret ${aShapeRootFret || 12})`,
+            frets: aFrets,
+            baseFret: Math.min(...aFrets.filter(fr => fr !== -1)) || 1,
+            caged: 'A'
+        });
+    }
+
+    // --- INVERSIONS ---
+    // 1. First Inversion (Bass = 3rd)
+    if (offset !== -1 && (q === '' || q === 'm')) {
+        const isMinor = q === 'm';
+        // Find 3rd note fret on E string
+        const thirdNoteName = thirdNote; 
+        const thirdE_Fret = (getPitchClass(thirdNoteName) - eStringIdx + 12) % 12;
+        const shapeNameE = isMinor ? 'Min_3_E' : 'Maj_3_E';
+        const invFretsE = createInversionVoicing(INVERSION_SHAPES[shapeNameE], thirdE_Fret);
+        if (invFretsE) {
+            voicings.push({
+                name: `/${thirdNoteName} (Bass on ${eName})`,
+                frets: pad(invFretsE),
+                baseFret: Math.min(...invFretsE.filter(fr => fr !== -1)) || 1
+            });
+        }
+
+        // Find 3rd note fret on A string
+        const thirdA_Fret = (getPitchClass(thirdNoteName) - aStringIdx + 12) % 12;
+        const shapeNameA = isMinor ? 'Min_3_A' : 'Maj_3_A';
+        const invFretsA = createInversionVoicing(INVERSION_SHAPES[shapeNameA], thirdA_Fret);
+        if (invFretsA) {
+            voicings.push({
+                name: `/${thirdNoteName} (Bass on ${aName})`,
+                frets: pad(invFretsA),
+                baseFret: Math.min(...invFretsA.filter(fr => fr !== -1)) || 1
+            });
+        }
+    }
+    
+    // 2. Second Inversion (Bass = 5th)
+    if (offset !== -1 && q === '') {
+         const fifthNoteName = fifthNote;
+         const fifthE_Fret = (getPitchClass(fifthNoteName) - eStringIdx + 12) % 12;
+         const invFrets5 = createInversionVoicing(INVERSION_SHAPES['Maj_5_E'], fifthE_Fret);
+         if (invFrets5) {
+            voicings.push({
+                name: `/${fifthNoteName} (Bass on ${eName})`,
+                frets: pad(invFrets5),
+                baseFret: Math.min(...invFrets5.filter(fr => fr !== -1)) || 1
+            });
+         }
+    }
+
+    // --- SEARCHED VOICINGS ---
+    addSearchedVoicings(voicings, n, q, tuning, instrument.search);
+
+    // --- DROP 2 / DROP 3 ---
+    voicings.push(...buildDropVoicings(n, q, tuning));
+
+    return voicings;
+};
+
+// Builds a playable Chord (tones and voicings) for any root + quality.
+// `degreeIdx` is the 0-based scale degree inside the key, or -1 for chromatic chords.
+const buildChord = (
+    q: string,
+    n: string,
+    r: string,
+    f: Chord['function'],
+    cat: Chord['category'],
+    customId: string = '',
+    degreeIdx: number = -1,
+    tuning: TuningString[] = GUITAR_TUNING,
+    instrument: Instrument = INSTRUMENTS[0]
+): Chord => {
+    // Every chord tone from the formula (extensions included)
+    const cNotes = spellChord(n, q);
+    const voicings = buildVoicings(n, q, tuning, instrument);
+
+    return {
+        id: `${n}${q}-${degreeIdx}-${customId}`,
+        root: n,
+        quality: q,
+        name: `${n}${q}`,
+        roman: r,
+        function: f,
+        notes: cNotes,
+        voicings: voicings,
+        activeVoicingIdx: 0,
+        scaleDegree: degreeIdx + 1,
+        isDiatonic: degreeIdx !== -1,
+        category: cat
+    };
+};
+
+// The same chord voiced for another tuning or instrument; progression cards keep their name, rhythm and lock
+const revoiceChord = (chord: Chord, tuning: TuningString[], instrument: Instrument): Chord => ({
+  ...chord,
+  voicings: buildVoicings(chord.root, chord.quality, tuning, instrument),
+  activeVoicingIdx: 0
+});
+
+// Interval between two key roots as letter steps + semitones, so C -> Eb moves E to G (not F##)
+const getKeyInterval = (from: string, to: string) => ({
+  letterSteps: (LETTERS.indexOf(to.charAt(0)) - LETTERS.indexOf(from.charAt(0)) + 7) % 7,
+  semitones: (getPitchClass(to) - getPitchClass(from) + 12) % 12
+});
+
+// Moves a chord by an interval; roman numeral, rhythm and lock stay, voicings are rebuilt
+const transposeChord = (
+  chord: Chord,
+  letterSteps: number,
+  semitones: number,
+  tuning: TuningString[],
+  instrument: Instrument
+): Chord => {
+  const newRoot = transposeNote(chord.root, letterSteps, semitones);
+  const voicings = buildVoicings(newRoot, chord.quality, tuning, instrument);
+  return {
+    ...chord,
+    root: newRoot,
+    name: `${newRoot}${chord.quality}`,
+    notes: spellChord(newRoot, chord.quality),
+    resolvesTo: chord.resolvesTo && transposeNote(chord.resolvesTo, letterSteps, semitones),
+    voicings,
+    activeVoicingIdx: chord.activeVoicingIdx < voicings.length ? chord.activeVoicingIdx : 0
+  };
+};
+
+// Friendlier names for the modes where SCALE_PATTERNS uses the everyday name
+const MODE_NAMES: Record<string, string> = {
+  'Major': 'Ionian',
+  'Natural Minor': 'Aeolian',
+  'Melodic Minor (Jazz)': 'Melodic Minor',
+};
+
+const getModeName = (scaleType: string) => MODE_NAMES[scaleType] || scaleType;
+
+// Nicknames for the borrowed chords students meet most often
+const BORROWED_NICKNAMES: Record<string, string> = {
+  'bVII': 'Mixolydian Borrow',
+  'bIII': 'Chromatic Mediant',
+  'iv': 'Minor Plagal',
+  'bVI': 'Epic Lift',
+  'bII': 'Neapolitan',
+  'V': 'Major V (Harmonic)',
+  'IV': 'Dorian IV',
+  'II': 'Lydian II',
+};
+
+// Roman numeral measured against the major scale, so borrowed chords read as bVI, bVII, #iv°...
+const formatRoman = (degreeIdx: number, semitonesFromKeyRoot: number, quality: string): string => {
+  const formula = getChordFormula(quality);
+  const shift = ((semitonesFromKeyRoot - SCALE_PATTERNS['Major'][degreeIdx] + 18) % 12) - 6;
+  let roman = ROMAN_NUMERALS[degreeIdx];
+  if (formula.includes('3')) roman = roman.toUpperCase();
+  const accidental = shift > 0 ? '#'.repeat(shift) : 'b'.repeat(-shift);
+  const suffixes: Record<string, string> = {
+    'dim': '°', 'aug': '+', 'maj7#5': '+Maj7', 'maj7': 'Maj7', 'm7': '7', '7': '7', 'mMaj7': 'Maj7', 'm7b5': 'ø7', 'dim7': '°7'
+  };
+  return accidental + roman + (suffixes[quality] ?? '');
+};
+
+// Triads (or 7th chords) on every degree of a scale, spelled from the key
+const harmonizeScale = (root: string, scaleType: string, useSevenths: boolean) => {
+  const pattern = SCALE_PATTERNS[scaleType];
+  const scaleNotes = spellScale(root, pattern);
+  return scaleNotes.map((note, i) => {
+    const interval = (step: number) => (pattern[(i + step) % 7] - pattern[i] + 12) % 12;
+    const quality = getQualityFromIntervals(interval(2), interval(4), useSevenths ? interval(6) : null);
+    return { root: note, quality, degreeIdx: i, roman: formatRoman(i, pattern[i], quality) };
+  });
+};
+
+// Generates chords for a specific key and style
+const generateKeyChords = (
+  root: string,
+  scaleType: string,
+  style: string,
+  tuning: TuningString[] = GUITAR_TUNING,
+  instrument: Instrument = INSTRUMENTS[0]
+): Chord[] => {
+  const rootIdx = getPitchClass(root);
+  const pattern = SCALE_PATTERNS[scaleType];
+  const scaleNotes = spellScale(root, pattern);
+  
+  const allChords: Chord[] = [];
+  // Every chord in the palette is voiced for the same instrument and tuning
+  const build: typeof buildChord = (q, n, r, f, cat, customId, degreeIdx) => buildChord(q, n, r, f, cat, customId, degreeIdx, tuning, instrument);
+
+  // 1. DIATONIC TEAM
+  scaleNotes.forEach((note, i) => {
+    const chordRootVal = getPitchClass(note);
+
+    let thirdNote = scaleNotes[(i + 2) % 7];
+    let fifthNote = scaleNotes[(i + 4) % 7];
+    let seventhNote = scaleNotes[(i + 6) % 7];
+
+    let useSevenths = (style === 'Jazz' || style === 'Blues');
+    let isBluesDominant = false;
+
+    // Blues Override
+    if (style === 'Blues' && (i === 0 || i === 3 || i === 4)) {
+       isBluesDominant = true;
+       thirdNote = transposeNote(note, 2, 4);
+       seventhNote = transposeNote(note, 6, 10);
+       useSevenths = true;
+    }
+
+    const thirdVal = getPitchClass(thirdNote);
+    const fifthVal = getPitchClass(fifthNote);
+    const seventhVal = getPitchClass(seventhNote);
+    
+    const thirdInterval = (thirdVal - chordRootVal + 12) % 12;
+    const fifthInterval = (fifthVal - chordRootVal + 12) % 12;
+    const seventhInterval = (seventhVal - chordRootVal + 12) % 12;
+    
+    let quality = getQualityFromIntervals(thirdInterval, fifthInterval, useSevenths ? seventhInterval : null);
+
+    // Determine Function
+    let func: Chord['function'] = 'Adventure'; 
+    if (i === 0) func = 'Home'; // I
+    if (i === 4) func = 'Tension'; // V
+    if (i === 6) func = 'Tension'; // vii
+    if (i === 2 || i === 5) func = 'Home'; // iii, vi
+    if (i === 1 || i === 3) func = 'Adventure'; // ii, IV
+
+    if (style === 'Blues' || scaleType === 'Mixolydian') {
+       if (i === 0) func = 'Home'; if (i === 3) func = 'Adventure'; if (i === 4) func = 'Tension';
+    }
+
+    let roman = ROMAN_NUMERALS[i];
+    if (thirdInterval === 4) roman = roman.toUpperCase();
+    if (quality.includes('7')) roman += '7';
+    if (quality === 'maj7') roman = roman.replace('7', 'Maj7');
+    if (quality === 'm7b5') roman += 'ø';
+    if (quality === 'dim7') roman += '°7';
+
+    allChords.push(build(quality, note, roman, func, 'Team', '', i));
+
+    // 2. VARIATIONS (Spices)
+    // Only generate variations for major/minor chords to keep it musical
+    
+    // Sus4 & Sus2
+    if (quality === '' || quality === '7') { // Major Triad or Dom7
+        allChords.push(build('sus4', note, roman + 'sus4', 'Spice', 'Variation', 'sus4', i));
+        allChords.push(build('sus2', note, roman + 'sus2', 'Spice', 'Variation', 'sus2', i));
+        if (style === 'Pop') {
+            allChords.push(build('add9', note, roman + 'add9', 'Spice', 'Variation', 'add9', i));
+        }
+        if (quality === '') { // Plain Major
+             allChords.push(build('6', note, roman + '6', 'Spice', 'Variation', '6', i));
+        }
+    }
+    
+    if (quality === '7') { // Dom7 specific
+        allChords.push(build('7sus4', note, roman + '7sus', 'Tension', 'Variation', '7sus4', i));
+    }
+
+    // Jazz extensions: stack a 9th (or 13th) on top of the diatonic 7th chord,
+    // but only where that tension is itself in the scale (so no iii9 in Major)
+    const isDiatonicTension = (steps: number, semitones: number) =>
+        (getPitchClass(scaleNotes[(i + steps) % 7]) - chordRootVal + 12) % 12 === semitones;
+    if (style === 'Jazz' && isDiatonicTension(1, 2)) {
+        if (quality === 'maj7') allChords.push(build('maj9', note, roman.replace('Maj7', 'Maj9'), 'Spice', 'Variation', 'maj9', i));
+        if (quality === 'm7') allChords.push(build('m9', note, roman.replace('7', '9'), 'Spice', 'Variation', 'm9', i));
+        if (quality === '7') {
+            allChords.push(build('9', note, roman.replace('7', '9'), 'Spice', 'Variation', '9', i));
+            if (isDiatonicTension(5, 9)) allChords.push(build('13', note, roman.replace('7', '13'), 'Spice', 'Variation', '13', i));
+        }
+    }
+  });
+
+  // 3. SECONDARY DOMINANTS (Jazz)
+  // For every diatonic chord that can be tonicized: its V7/x, the related ii
+  // (iiø7/x before a minor target) and the tritone substitute subV7/x.
+  if (style === 'Jazz') {
+    const targets = allChords.filter(c => c.category === 'Team' && c.scaleDegree >= 2 && c.scaleDegree <= 6);
+    targets.forEach(target => {
+      if (target.quality.startsWith('dim') || target.quality === 'm7b5') return;
+      const base = getRomanBase(target.roman);
+      const isMinorTarget = getChordFormula(target.quality).includes('b3');
+
+      const dominantRoot = transposeNote(target.root, 4, 7);
+      const dominant = build('7', dominantRoot, `V7/${base}`, 'Tension', 'Secondary', `v-${base}`);
+      dominant.resolvesTo = target.root;
+
+      const iiRoot = transposeNote(target.root, 1, 2);
+      const ii = build(isMinorTarget ? 'm7b5' : 'm7', iiRoot, `${isMinorTarget ? 'iiø7' : 'ii7'}/${base}`, 'Adventure', 'Secondary', `ii-${base}`);
+      ii.resolvesTo = dominantRoot;
+
+      const subRoot = simplifyNote(transposeNote(target.root, 1, 1));
+      const sub = build('7', subRoot, `subV7/${base}`, 'Tension', 'Secondary', `sub-${base}`);
+      sub.resolvesTo = target.root;
+
+      allChords.push(ii, dominant, sub);
+    });
+  }
+
+  // 4. WILDCARDS (Happy Accidents / Borrowed Chords)
+  // Harmonize every parallel mode on the same root and keep whatever the
+  // current key doesn't already have, remembering which modes it came from.
+  // "In key" means the Team chords actually generated above, so style
+  // overrides (e.g. Blues dominant sevenths) aren't offered again as borrowed.
+  const useSevenths = style === 'Jazz' || style === 'Blues';
+  const inKey = new Set(allChords.filter(c => c.category === 'Team').map(c => `${getPitchClass(c.root)}${c.quality}`));
+  const borrowed = new Map<string, { chord: ReturnType<typeof harmonizeScale>[number], sources: string[] }>();
+
+  Object.keys(SCALE_PATTERNS).filter(mode => mode !== scaleType).forEach(mode => {
+    harmonizeScale(root, mode, useSevenths).forEach(chord => {
+      const key = `${getPitchClass(chord.root)}${chord.quality}`;
+      if (inKey.has(key)) return;
+      const entry = borrowed.get(key);
+      if (entry) entry.sources.push(mode);
+      else borrowed.set(key, { chord, sources: [mode] });
+    });
+  });
+
+  Array.from(borrowed.values())
+    .sort((a, b) => a.chord.degreeIdx - b.chord.degreeIdx || getPitchClass(a.chord.root) - getPitchClass(b.chord.root))
+    .forEach(({ chord, sources }) => {
+      const wild = build(chord.quality, chord.root, chord.roman, 'Stranger', 'Wildcard', 'wild');
+      wild.id = `wild-${wild.name}`;
+      wild.sourceModes = sources;
+      allChords.push(wild);
+    });
+
+  return allChords;
+};
+
+// --- REHARMONIZE ---
+// Moves a progression to another root and/or mode. Diatonic chords keep their scale degree
+// and take whatever that degree is in the new mode (I in Major becomes i in Dorian); chromatic
+// chords (secondaries, borrowed) are transposed and keep their roman numeral.
+
+interface ReharmonizeChange {
+  before: Chord;
+  after: Chord;
+  qualityChanged: boolean;
+}
+
+const reharmonizeProgression = (
+  progression: Chord[],
+  from: { root: string, scaleType: string },
+  to: { root: string, scaleType: string },
+  style: string,
+  tuning: TuningString[],
+  instrument: Instrument
+): ReharmonizeChange[] => {
+  const { letterSteps, semitones } = getKeyInterval(from.root, to.root);
+  const palette = generateKeyChords(to.root, to.scaleType, style, tuning, instrument);
+
+  return progression.map(before => {
+    // Keep the card's identity and playback settings, take theory and voicings from the new chord
+    const adopt = (template: Chord): Chord => ({
+      ...template,
+      id: before.id,
+      patternId: before.patternId,
+      locked: before.locked,
+      activeVoicingIdx: before.activeVoicingIdx < template.voicings.length ? before.activeVoicingIdx : 0
+    });
+
+    let after: Chord | undefined;
+    if (before.isDiatonic) {
+      const sameDegree = palette.filter(c => c.scaleDegree === before.scaleDegree);
+      const template = sameDegree.find(c => c.category === before.category && c.quality === before.quality)
+        ?? sameDegree.find(c => c.category === 'Team');
+      if (template) after = adopt(template);
+    }
+    if (!after) {
+      const moved = transposeChord(before, letterSteps, semitones, tuning, instrument);
+      // A chromatic chord may be diatonic (or a palette borrow) in the new mode
+      const template = palette.find(c => isSameNote(c.root, moved.root) && c.quality === moved.quality && c.roman === moved.roman);
+      after = template ? adopt(template) : moved;
+    }
+    return { before, after, qualityChanged: before.quality !== after.quality };
+  });
+};
+
+// --- PROGRESSION PARSER ---
+// Turns typed text into chords. Each token is either a chord symbol ("C", "F#m7b5", "C/E")
+// or a roman numeral in the current key ("ii7", "bVII", "V7/V", "subV7/ii"). Plain numerals
+// follow the current mode (III in minor is the b3 chord); numerals with an accidental are
+// measured against the major scale, like the borrowed chords in the palette.
+
+// Chord-symbol spellings people type, mapped to CHORD_FORMULAS keys
+const SYMBOL_QUALITIES: Record<string, string> = {
+  'M': '', 'maj': '', 'min': 'm', '-': 'm', '°': 'dim', 'o': 'dim', '+': 'aug', 'sus': 'sus4',
+  'M7': 'maj7', 'Maj7': 'maj7', 'Δ': 'maj7', 'Δ7': 'maj7', 'min7': 'm7', '-7': 'm7',
+  'mM7': 'mMaj7', 'm(maj7)': 'mMaj7', '°7': 'dim7', 'o7': 'dim7', 'ø': 'm7b5', 'ø7': 'm7b5',
+  '7sus': '7sus4', 'Maj9': 'maj9', 'M9': 'maj9', '+Maj7': 'maj7#5', 'maj7+5': 'maj7#5',
+};
+
+// Roman numeral suffixes as [quality for an upper-case numeral, quality for a lower-case one]
+const ROMAN_SUFFIXES: Record<string, [string | null, string | null]> = {
+  '': ['', 'm'],
+  '7': ['7', 'm7'],
+  'maj7': ['maj7', 'mMaj7'], 'Maj7': ['maj7', 'mMaj7'], 'M7': ['maj7', 'mMaj7'],
+  '6': ['6', 'm6'],
+  '9': ['9', 'm9'],
+  'maj9': ['maj9', null], 'Maj9': ['maj9', null],
+  'add9': ['add9', 'madd9'],
+  '13': ['13', null],
+  '7b9': ['7b9', null], '7#9': ['7#9', null],
+  'sus': ['sus4', 'sus4'], 'sus4': ['sus4', 'sus4'], 'sus2': ['sus2', 'sus2'],
+  '7sus': ['7sus4', '7sus4'], '7sus4': ['7sus4', '7sus4'],
+  '°': ['dim', 'dim'], 'o': ['dim', 'dim'], '°7': ['dim7', 'dim7'], 'o7': ['dim7', 'dim7'],
+  'ø': ['m7b5', 'm7b5'], 'ø7': ['m7b5', 'm7b5'], '7ø': ['m7b5', 'm7b5'],
+  '+': ['aug', 'aug'], '+Maj7': ['maj7#5', null],
+};
+
+interface ParsedToken {
+  token: string;
+  root?: string;
+  quality?: string;
+  roman?: string; // As typed, for numerals
+  resolvesTo?: string; // Target root of a secondary chord
+  bass?: string; // Slash-chord bass note
+  error?: string;
+}
+
+const ROMAN_PATTERN = /^(sub)?([b#]*)(VII|VI|V|IV|III|II|I|vii|vi|v|iv|iii|ii|i)([^/]*)(?:\/(.+))?$/;
+const SYMBOL_PATTERN = /^([A-G][#b]?)([^/]*)(?:\/(.+))?$/;
+
+const splitProgressionText = (text: string): string[] => text.split(/[\s,|]+/).filter(t => t && t !== '-');
+
+// Root of a plain or altered numeral (no suffix) in a key
+const resolveRomanRoot = (accidentals: string, numeral: string, keyRoot: string, scaleType: string): string => {
+  const degree = ROMAN_NUMERALS.indexOf(numeral.toLowerCase());
+  if (!accidentals) return spellScale(keyRoot, SCALE_PATTERNS[scaleType])[degree];
+  const shift = [...accidentals].reduce((acc, a) => acc + (a === '#' ? 1 : -1), 0);
+  return transposeNote(keyRoot, degree, SCALE_PATTERNS['Major'][degree] + shift);
+};
+
+const parseChordToken = (token: string, keyRoot: string, scaleType: string): ParsedToken => {
+  const symbol = token.match(SYMBOL_PATTERN);
+  if (symbol) {
+    const [, root, suffix, bass] = symbol;
+    const quality = Object.hasOwn(CHORD_FORMULAS, suffix) ? suffix
+      : Object.hasOwn(SYMBOL_QUALITIES, suffix) ? SYMBOL_QUALITIES[suffix] : undefined;
+    if (quality === undefined) return { token, error: `Unknown chord quality "${suffix}"` };
+    if (bass !== undefined && !/^[A-G][#b]?$/.test(bass)) return { token, error: `"${bass}" is not a bass note` };
+    return { token, root, quality, bass };
+  }
+
+  const roman = token.match(ROMAN_PATTERN);
+  if (!roman) return { token, error: 'Not a chord symbol or roman numeral' };
+  const [, sub, accidentals, numeral, suffix, target] = roman;
+  const isUpper = numeral === numeral.toUpperCase();
+  const qualities = Object.hasOwn(ROMAN_SUFFIXES, suffix) ? ROMAN_SUFFIXES[suffix] : undefined;
+  const quality = qualities?.[isUpper ? 0 : 1];
+  if (quality === undefined) return { token, error: `Unknown numeral suffix "${suffix}"` };
+  if (quality === null) return { token, error: `"${suffix}" needs ${isUpper ? 'a lower' : 'an upper'}-case numeral` };
+
+  if (target === undefined) {
+    if (sub) return { token, error: 'A tritone sub needs a target, e.g. subV7/ii' };
+    return { token, root: resolveRomanRoot(accidentals, numeral, keyRoot, scaleType), quality, roman: token };
+  }
+
+  // Secondary chord: the numeral is measured from the target as if it were a major key
+  const targetMatch = target.match(/^([b#]*)(VII|VI|V|IV|III|II|I|vii|vi|v|iv|iii|ii|i)$/);
+  if (!targetMatch) return { token, error: `"${target}" is not a scale degree to tonicize` };
+  const targetRoot = resolveRomanRoot(targetMatch[1], targetMatch[2], keyRoot, scaleType);
+  if (sub) {
+    if (numeral.toUpperCase() !== 'V') return { token, error: 'Only V chords have tritone subs' };
+    return { token, root: simplifyNote(transposeNote(targetRoot, 1, 1)), quality, roman: token, resolvesTo: targetRoot };
+  }
+  return { token, root: resolveRomanRoot(accidentals, numeral, targetRoot, 'Major'), quality, roman: token, resolvesTo: targetRoot };
+};
+
+// Builds the chords for parsed tokens, reusing palette chords (function, category, roman) where they match
+const buildParsedChords = (
+  parsed: ParsedToken[],
+  palette: Chord[],
+  keyRoot: string,
+  scaleType: string,
+  tuning: TuningString[],
+  instrument: Instrument
+): { chords: Chord[], errors: ParsedToken[] } => {
+  const chords: Chord[] = [];
+  const errors: ParsedToken[] = [];
+  const stamp = Date.now();
+  const keyPc = getPitchClass(keyRoot);
+  const inMode = (mode: string, pcs: number[]) => pcs.every(pc => SCALE_PATTERNS[mode].includes((pc - keyPc + 12) % 12));
+
+  parsed.forEach((p, i) => {
+    if (p.error || !p.root || p.quality === undefined) {
+      errors.push(p);
+      return;
+    }
+    const root = p.root;
+    const quality = p.quality;
+    const match = palette.find(c => isSameNote(c.root, root) && c.quality === quality
+      && (!p.resolvesTo || (c.resolvesTo !== undefined && isSameNote(c.resolvesTo, p.resolvesTo))));
+    let chord: Chord;
+    if (match) {
+      chord = { ...match };
+    } else if (p.resolvesTo) {
+      const func: Chord['function'] = quality.includes('7') && !quality.startsWith('m') ? 'Tension' : 'Adventure';
+      chord = { ...buildChord(quality, root, p.roman!, func, 'Secondary', 'typed', -1, tuning, instrument), resolvesTo: p.resolvesTo };
+    } else {
+      const letterSteps = (LETTERS.indexOf(root.charAt(0)) - LETTERS.indexOf(keyRoot.charAt(0)) + 7) % 7;
+      const semis = (getPitchClass(root) - getPitchClass(keyRoot) + 12) % 12;
+      const roman = p.roman ?? formatRoman(letterSteps, semis, quality);
+      // Another in-scale quality on a scale degree keeps that degree's function, like the palette
+      // variations; anything with outside tones is borrowed from the parallel modes that have it
+      const pcs = spellChord(root, quality).map(getPitchClass);
+      const degree = inMode(scaleType, pcs) ? palette.find(c => c.category === 'Team' && isSameNote(c.root, root)) : undefined;
+      if (degree) {
+        chord = buildChord(quality, root, roman, degree.function, 'Variation', 'typed', degree.scaleDegree - 1, tuning, instrument);
+      } else {
+        chord = buildChord(quality, root, roman, 'Stranger', 'Wildcard', 'typed', -1, tuning, instrument);
+        const sources = Object.keys(SCALE_PATTERNS).filter(mode => mode !== scaleType && inMode(mode, pcs));
+        if (sources.length > 0) chord.sourceModes = sources;
+      }
+    }
+
+    // Slash chords put the voicings with that bass note first
+    if (p.bass) {
+      const slash = instrument.role === 'chords'
+        ? findVoicings(root, quality, { ...instrument.search, bass: p.bass }, tuning).slice(0, 4).map(stripRanking)
+        : [];
+      if (slash.length === 0) {
+        errors.push({ ...p, error: `No playable voicing with ${p.bass} in the bass` });
+        return;
+      }
+      chord = { ...chord, voicings: [...slash, ...chord.voicings] };
+    }
+    chords.push({ ...chord, id: `${chord.id}-${stamp}-${i}`, activeVoicingIdx: p.bass ? 0 : chord.activeVoicingIdx });
+  });
+
+  return { chords, errors };
+};
+
+// --- VOICE LEADING ---
+// Picks one voicing per chord so the whole progression moves as little as possible.
+// Dynamic programming over the candidates: best[i][j] is the cheapest way to reach
+// voicing j of chord i, so the global optimum falls out in O(chords * voicings^2).
+
+interface NeckRegion { id: string; label: string; minFret: number; maxFret: number }
+
+const NECK_REGIONS: NeckRegion[] = [
+  { id: 'any', label: 'Anywhere', minFret: 0, maxFret: 24 },
+  { id: 'open', label: 'Open (0-4)', minFret: 0, maxFret: 4 },
+  { id: 'middle', label: 'Middle (3-9)', minFret: 3, maxFret: 9 },
+  { id: 'upper', label: 'Upper (7-15)', minFret: 7, maxFret: 15 },
+];
+
+interface VoiceLeadingOptions {
+  regionId: string;
+  smoothBass: boolean;
+}
+
+const DEFAULT_VOICE_LEADING: VoiceLeadingOptions = { regionId: 'any', smoothBass: false };
+
+const getVoicingPitches = (voicing: Voicing, tuning: TuningString[]): number[] =>
+  voicing.frets
+    .map((fret, s) => getPitchAtFret(s, fret, tuning))
+    .filter((p): p is number => p !== null)
+    .sort((a, b) => a - b);
+
+// Average fretted position, i.e. where the hand sits (open strings don't move it)
+const getHandPosition = (voicing: Voicing): number => {
+  const fretted = voicing.frets.filter(f => f > 0);
+  return fretted.length ? fretted.reduce((a, b) => a + b, 0) / fretted.length : 0;
+};
+
+// Semitones each voice has to travel, pairing every note with its nearest neighbour both ways
+const getVoiceMotion = (from: number[], to: number[]): number => {
+  if (!from.length || !to.length) return 0;
+  const nearest = (p: number, pool: number[]) => Math.min(...pool.map(q => Math.abs(p - q)));
+  const forward = from.reduce((sum, p) => sum + nearest(p, to), 0);
+  const backward = to.reduce((sum, p) => sum + nearest(p, from), 0);
+  return (forward + backward) / 2;
+};
+
+const getTransitionCost = (from: Voicing, to: Voicing, options: VoiceLeadingOptions, tuning: TuningString[]): number => {
+  const a = getVoicingPitches(from, tuning);
+  const b = getVoicingPitches(to, tuning);
+  const handMove = Math.abs(getHandPosition(from) - getHandPosition(to));
+  const bassMove = a.length && b.length ? Math.abs(a[0] - b[0]) : 0;
+  return handMove * 1.5 + getVoiceMotion(a, b) + bassMove * (options.smoothBass ? 2 : 0.25);
+};
+
+// Penalty for every fret the voicing reaches outside the chosen neck region
+const getRegionCost = (voicing: Voicing, region: NeckRegion): number => {
+  const fretted = voicing.frets.filter(f => f > 0);
+  return fretted.reduce((sum, f) => sum + Math.max(0, region.minFret - f, f - region.maxFret) * 3, 0);
+};
+
+// Returns the chosen voicing index for every chord. Locked chords keep their current voicing,
+// and so do chords with no voicing in this tuning; the rest are led straight across them.
+const optimizeVoiceLeading = (progression: Chord[], options: VoiceLeadingOptions, tuning: TuningString[] = GUITAR_TUNING): number[] => {
+  const chosen = progression.map(c => c.activeVoicingIdx);
+  const voiced = progression.filter(c => c.voicings.length > 0);
+  const positions = progression.flatMap((c, i) => c.voicings.length > 0 ? [i] : []);
+  if (voiced.length === 0) return chosen;
+  const region = NECK_REGIONS.find(r => r.id === options.regionId) || NECK_REGIONS[0];
+  const candidates = voiced.map(c =>
+    c.locked ? [c.activeVoicingIdx] : c.voicings.map((_, j) => j));
+
+  let best = candidates[0].map(j => getRegionCost(voiced[0].voicings[j], region));
+  const back: number[][] = [candidates[0].map(() => -1)];
+
+  for (let i = 1; i < voiced.length; i++) {
+    const prevChord = voiced[i - 1];
+    const chord = voiced[i];
+    const next: number[] = [];
+    const from: number[] = [];
+    candidates[i].forEach(j => {
+      let bestCost = Infinity;
+      let bestK = 0;
+      candidates[i - 1].forEach((k, kIdx) => {
+        const cost = best[kIdx] + getTransitionCost(prevChord.voicings[k], chord.voicings[j], options, tuning);
+        if (cost < bestCost) { bestCost = cost; bestK = kIdx; }
+      });
+      next.push(bestCost + getRegionCost(chord.voicings[j], region));
+      from.push(bestK);
+    });
+    best = next;
+    back.push(from);
+  }
+
+  // Walk the back-pointers from the cheapest final voicing
+  let idx = best.indexOf(Math.min(...best));
+  for (let i = voiced.length - 1; i >= 0; i--) {
+    chosen[positions[i]] = candidates[i][idx];
+    idx = back[i][idx];
+  }
+  return chosen;
+};
+
+// --- HARMONIC ANALYSIS ---
+// Offline analysis from pitch content rather than the palette's function labels, so typed,
+// transposed and borrowed chords are read the same way. Chord tones come from the spelled
+// notes; the bass and top voice come from the active voicing.
+
+type HarmonicAnnotationKind = 'cadence' | 'root-motion' | 'common-tones' | 'tritone' | 'pedal' | 'chromatic' | 'secondary' | 'interchange';
+
+interface HarmonicAnnotation {
+  kind: HarmonicAnnotationKind;
+  label: string; // Short tag for the timeline
+  detail: string; // One sentence for tooltips and the analysis panel
+  from: number; // Index of the first chord involved
+  to: number; // Index of the last chord involved
+}
+
+interface TransitionAnalysis {
+  type: 'resolution' | 'tension' | 'adventure' | 'neutral';
+  label: string; // Headline for the arrow between cards
+  annotations: HarmonicAnnotation[];
+}
+
+interface ProgressionAnalysis {
+  transitions: TransitionAnalysis[]; // transitions[i] runs from chord i to chord i + 1
+  annotations: HarmonicAnnotation[]; // Patterns spanning several chords, plus the closing cadence
+}
+
+// [label, description] for root motion by semitones
+const ROOT_MOTIONS: [string, string][] = [
+  ['Same root', 'stays on the same root'],
+  ['Step ↑', 'up a half step'],
+  ['Step ↑', 'up a whole step'],
+  ['3rd ↑', 'up a minor 3rd'],
+  ['3rd ↑', 'up a major 3rd'],
+  ['5th ↓', 'down a 5th (up a 4th), the strongest root motion'],
+  ['Tritone', 'by a tritone'],
+  ['5th ↑', 'up a 5th (down a 4th)'],
+  ['3rd ↓', 'down a major 3rd'],
+  ['3rd ↓', 'down a minor 3rd'],
+  ['Step ↓', 'down a whole step'],
+  ['Step ↓', 'down a half step'],
+];
+
+interface ChordFacts {
+  root: number;
+  degree: number; // Semitones above the key root
+  pcs: Set<number>;
+  names: Map<number, string>; // Spelled name of each pitch class
+  bass: number;
+  top: number;
+  isMajor: boolean; // Major third
+  isMinor: boolean; // Minor third
+  isDominant: boolean; // Major third and minor seventh, or a plain major triad
+  isDiminished: boolean; // Diminished fifth and minor third
+  isDiatonic: boolean;
+}
+
+const getChordFacts = (chord: Chord, keyPc: number, scalePcs: Set<number>, tuning: TuningString[]): ChordFacts => {
+  const root = getPitchClass(chord.root);
+  const intervals = new Set(chord.notes.map(n => (getPitchClass(n) - root + 12) % 12));
+  const pitches = chord.voicings[chord.activeVoicingIdx] ? getVoicingPitches(chord.voicings[chord.activeVoicingIdx], tuning) : [];
+  const pcs = new Set(chord.notes.map(getPitchClass));
+  const isMajor = intervals.has(4);
+  const isMinor = intervals.has(3) && !isMajor;
+  return {
+    root,
+    degree: (root - keyPc + 12) % 12,
+    pcs,
+    names: new Map(chord.notes.map(n => [getPitchClass(n), n])),
+    bass: pitches.length ? pitches[0] % 12 : root,
+    top: pitches.length ? pitches[pitches.length - 1] % 12 : root,
+    isMajor,
+    isMinor,
+    isDominant: isMajor && intervals.has(7) && !intervals.has(11),
+    isDiminished: isMinor && intervals.has(6),
+    isDiatonic: [...pcs].every(pc => scalePcs.has(pc)),
+  };
+};
+
+// A pitch class spelled the way the chord spells it
+const spellFact = (f: ChordFacts, pc: number) => f.names.get(pc) ?? spellPitchClass(pc, [...f.names.values()]);
+
+// V or V7 of the key, or the leading-tone diminished chord
+const isDominantFunction = (f: ChordFacts) => (f.degree === 7 && f.isDominant) || (f.degree === 11 && f.isDiminished);
+
+// The two notes of a tritone that each move by half step in contrary motion
+const findTritoneResolution = (a: ChordFacts, b: ChordFacts): [number, number, number, number] | null => {
+  for (const low of a.pcs) {
+    const high = (low + 6) % 12;
+    if (!a.pcs.has(high)) continue;
+    for (const dir of [1, -1]) {
+      const lowTo = (low + dir + 12) % 12;
+      const highTo = (high - dir + 12) % 12;
+      if (b.pcs.has(lowTo) && b.pcs.has(highTo) && !b.pcs.has(low) && !b.pcs.has(high)) return [low, lowTo, high, highTo];
+    }
+  }
+  return null;
+};
+
+// Parallel modes on the key root that contain every tone of the chord
+const findBorrowSources = (f: ChordFacts, keyPc: number, scaleType: string): string[] =>
+  Object.keys(SCALE_PATTERNS)
+    .filter(mode => mode !== scaleType)
+    .filter(mode => [...f.pcs].every(pc => SCALE_PATTERNS[mode].includes((pc - keyPc + 12) % 12)));
+
+const analyzeTransition = (
+  prev: Chord,
+  curr: Chord,
+  a: ChordFacts,
+  b: ChordFacts,
+  idx: number,
+  isLast: boolean,
+  keyPc: number,
+  scaleType: string
+): TransitionAnalysis => {
+  const annotations: HarmonicAnnotation[] = [];
+  const note = (kind: HarmonicAnnotationKind, label: string, detail: string) => annotations.push({ kind, label, detail, from: idx, to: idx + 1 });
+  const motion = (b.root - a.root + 12) % 12;
+
+  // Cadences, judged from the key's scale degrees
+  if (isDominantFunction(a) && b.degree === 0) {
+    const perfect = a.bass === a.root && b.bass === b.root && b.top === keyPc && a.degree === 7;
+    note('cadence', perfect ? 'PAC' : 'Authentic', `${perfect ? 'Perfect' : 'Imperfect'} authentic cadence: ${prev.name} resolves home to ${curr.name}.`);
+  } else if (a.degree === 5 && (a.isMajor || a.isMinor) && b.degree === 0) {
+    note('cadence', a.isMinor ? 'Minor plagal' : 'Plagal', `${a.isMinor ? 'Minor plagal' : 'Plagal'} ("amen") cadence from ${prev.name} to ${curr.name}.`);
+  } else if (isDominantFunction(a) && (b.degree === 9 || b.degree === 8)) {
+    note('cadence', 'Deceptive', `Deceptive cadence: ${prev.name} sets up home but lands on ${curr.name}.`);
+  } else if (isLast && b.degree === 7 && b.isMajor && !isDominantFunction(a)) {
+    note('cadence', 'Half', `Half cadence: the phrase stops on ${curr.name}, the dominant, asking to continue.`);
+  }
+
+  // Secondary functions point at the next chord rather than the key
+  if (!a.isDiatonic && b.degree !== 0) {
+    const target = getRomanBase(curr.roman);
+    if (a.isDominant && motion === 5) note('secondary', `V/${target}`, `${prev.name} acts as the dominant of ${curr.name} (V/${target}).`);
+    else if (a.isDominant && motion === 11) note('secondary', `subV/${target}`, `${prev.name} is a tritone substitute resolving down a half step to ${curr.name}.`);
+    else if (a.isDiminished && motion === 1) note('secondary', `vii°/${target}`, `${prev.name} is a leading-tone chord pulling up to ${curr.name}.`);
+  }
+  if (a.isMinor && b.isDominant && motion === 5) {
+    note('root-motion', 'ii–V', `${prev.name} → ${curr.name} is a ii–V heading for ${spellFact(b, (b.root + 5) % 12)}.`);
+  }
+
+  // Borrowed colour on the arriving chord, unless it is explained as a secondary function
+  if (!b.isDiatonic) {
+    const sources = findBorrowSources(b, keyPc, scaleType);
+    if (sources.length) note('interchange', 'Borrowed', `${curr.name} is borrowed from ${sources.slice(0, 2).join(' / ')}.`);
+  }
+
+  const [motionLabel, motionDetail] = ROOT_MOTIONS[motion];
+  if (motion !== 0) note('root-motion', motionLabel, `Root moves ${motionDetail}.`);
+
+  const common = [...b.pcs].filter(pc => a.pcs.has(pc));
+  if (common.length) note('common-tones', `${common.length} common`, `Keeps ${common.map(pc => spellFact(b, pc)).join(', ')}.`);
+
+  const tritone = findTritoneResolution(a, b);
+  if (tritone) {
+    const [low, lowTo, high, highTo] = tritone;
+    note('tritone', 'Tritone', `The ${spellFact(a, low)}–${spellFact(a, high)} tritone resolves by half steps to ${spellFact(b, lowTo)}–${spellFact(b, highTo)}.`);
+  }
+
+  if (a.bass === b.bass && a.root !== b.root) note('pedal', 'Pedal', `${spellFact(b, b.bass)} is held in the bass.`);
+
+  // Half-step moves into or out of notes outside the key
+  const scalePcs = new Set(SCALE_PATTERNS[scaleType].map(i => (keyPc + i) % 12));
+  const steps = [...a.pcs].filter(pc => !b.pcs.has(pc)).flatMap(pc => {
+    const to = [1, -1].map(dir => (pc + dir + 12) % 12)
+      .find(to => b.pcs.has(to) && !a.pcs.has(to) && (!scalePcs.has(pc) || !scalePcs.has(to)));
+    return to === undefined ? [] : [`${spellFact(a, pc)}→${spellFact(b, to)}`];
+  });
+  if (steps.length) note('chromatic', 'Chromatic', `Chromatic voice leading: ${steps.join(', ')}.`);
+
+  // The headline is the most telling annotation
+  const first = (kind: HarmonicAnnotationKind) => annotations.find(n => n.kind === kind);
+  const cadence = first('cadence');
+  if (cadence) {
+    const type = cadence.label === 'Deceptive' ? 'adventure' : cadence.label === 'Half' ? 'tension' : 'resolution';
+    return { type, label: cadence.label, annotations };
+  }
+  const secondary = first('secondary');
+  if (secondary) return { type: 'resolution', label: secondary.label, annotations };
+  if (first('interchange')) return { type: 'adventure', label: 'Borrowed', annotations };
+  const iiV = annotations.find(n => n.label === 'ii–V');
+  if (iiV || isDominantFunction(b)) return { type: 'tension', label: iiV ? 'ii–V' : 'Build', annotations };
+  if (tritone) return { type: 'resolution', label: 'Tritone', annotations };
+  if (first('pedal')) return { type: 'neutral', label: 'Pedal', annotations };
+  if (first('chromatic')) return { type: 'adventure', label: 'Chromatic', annotations };
+  return { type: 'neutral', label: motion === 0 ? 'Flow' : motionLabel, annotations };
+};
+
+// Bass notes held under three or more chords while the harmony moves
+const findPedalPoints = (facts: ChordFacts[]): HarmonicAnnotation[] => {
+  const pedals: HarmonicAnnotation[] = [];
+  let start = 0;
+  for (let i = 1; i <= facts.length; i++) {
+    if (i < facts.length && facts[i].bass === facts[start].bass) continue;
+    const run = facts.slice(start, i);
+    if (run.length >= 3 && new Set(run.map(f => f.root)).size > 1) {
+      const bass = spellFact(facts[start], facts[start].bass);
+      pedals.push({ kind: 'pedal', label: `${bass} pedal`, detail: `${bass} stays in the bass under chords ${start + 1}–${i}.`, from: start, to: i - 1 });
+    }
+    start = i;
+  }
+  return pedals;
+};
+
+// Chord tones that keep moving by half step in one direction over three or more chords
+const findChromaticLines = (facts: ChordFacts[]): HarmonicAnnotation[] => {
+  const lines: HarmonicAnnotation[] = [];
+  // The half step pc -> pc + dir from chord a into chord b, if the voice really moves
+  const stepsTo = (a: ChordFacts, b: ChordFacts, pc: number, dir: number) => {
+    const to = (pc + dir + 12) % 12;
+    return a.pcs.has(pc) && b.pcs.has(to) && !b.pcs.has(pc) ? to : null;
+  };
+  facts.forEach((f, i) => {
+    f.pcs.forEach(pc => {
+      [1, -1].forEach(dir => {
+        // Only start where the line begins, not partway along it
+        if (i > 0 && stepsTo(facts[i - 1], f, (pc - dir + 12) % 12, dir) === pc) return;
+        const line = [spellFact(f, pc)];
+        let cur = pc;
+        let j = i;
+        while (j + 1 < facts.length) {
+          const next = stepsTo(facts[j], facts[j + 1], cur, dir);
+          if (next === null) break;
+          cur = next;
+          j++;
+          line.push(spellFact(facts[j], cur));
+        }
+        if (line.length >= 3) {
+          lines.push({ kind: 'chromatic', label: line.join('–'), detail: `Chromatic line ${line.join('–')} ${dir > 0 ? 'rises' : 'falls'} over chords ${i + 1}–${j + 1}.`, from: i, to: j });
+        }
+      });
+    });
+  });
+  return lines;
+};
+
+const analyzeProgression = (progression: Chord[], root: string, scaleType: string, tuning: TuningString[]): ProgressionAnalysis => {
+  const keyPc = getPitchClass(root);
+  const scalePcs = new Set(SCALE_PATTERNS[scaleType].map(i => (keyPc + i) % 12));
+  const facts = progression.map(c => getChordFacts(c, keyPc, scalePcs, tuning));
+  const transitions = progression.slice(1).map((curr, i) =>
+    analyzeTransition(progression[i], curr, facts[i], facts[i + 1], i, i === progression.length - 2, keyPc, scaleType));
+
+  // A secondary dominant is explained by where it goes, so it isn't also called borrowed
+  transitions.forEach((t, i) => {
+    if (i === 0 || !t.annotations.some(n => n.kind === 'secondary')) return;
+    const into = transitions[i - 1];
+    into.annotations = into.annotations.filter(n => n.kind !== 'interchange');
+    if (into.label === 'Borrowed') into.label = ROOT_MOTIONS[(facts[i].root - facts[i - 1].root + 12) % 12][0];
+  });
+
+  const annotations: HarmonicAnnotation[] = [];
+  const cadences = transitions.flatMap(t => t.annotations.filter(n => n.kind === 'cadence'));
+  const closing = cadences.find(n => n.to === progression.length - 1);
+  if (closing) annotations.push(closing);
+  else if (progression.length > 1 && facts[facts.length - 1].degree !== 0) {
+    const last = progression[progression.length - 1];
+    annotations.push({ kind: 'cadence', label: 'Open ending', detail: `Ends on ${last.name} without a cadence, so it loops back naturally.`, from: progression.length - 1, to: progression.length - 1 });
+  }
+  annotations.push(...cadences.filter(n => n !== closing));
+  annotations.push(...findPedalPoints(facts), ...findChromaticLines(facts));
+  transitions.forEach(t => annotations.push(...t.annotations.filter(n => n.kind === 'secondary' || n.kind === 'interchange')));
+  if (progression.length && !facts[0].isDiatonic && !transitions[0]?.annotations.some(n => n.kind === 'secondary')) {
+    const sources = findBorrowSources(facts[0], keyPc, scaleType);
+    if (sources.length) annotations.push({ kind: 'interchange', label: 'Borrowed', detail: `${progression[0].name} is borrowed from ${sources.slice(0, 2).join(' / ')}.`, from: 0, to: 0 });
+  }
+  return { transitions, annotations };
+};
+
+// --- PROGRESSION CORPUS ---
+// A curated, versioned set of well-known progressions in roman numerals. The browser loads
+// them into the current key, and the next-chord model trains on them. Ids are stable so
+// saved references survive new versions; bump the version when entries change meaning.
+
+interface CorpusProgression {
+  id: string;
+  name: string;
+  romans: string; // Read in `mode`; numerals with an accidental are measured against major
+  mode: string; // Scale type the numerals are read in
+  styles: string[]; // MUSIC_STYLES ids it suits
+  tags: string[];
+  description: string;
+}
+
+const PROGRESSION_CORPUS_VERSION = 1;
+
+const PROGRESSION_CORPUS: CorpusProgression[] = [
+  // Pop loops
+  { id: 'axis', name: 'Axis of Awesome', romans: 'I V vi IV', mode: 'Major', styles: ['Pop'], tags: ['loop', 'axis'], description: 'The four chords behind hundreds of pop hits.' },
+  { id: 'axis-minor', name: 'Axis (minor start)', romans: 'vi IV I V', mode: 'Major', styles: ['Pop'], tags: ['loop', 'axis'], description: 'The same four chords started on vi for a darker feel.' },
+  { id: 'doo-wop', name: 'Doo-Wop (50s)', romans: 'I vi IV V', mode: 'Major', styles: ['Pop'], tags: ['loop', 'classic'], description: 'The "Stand By Me" / "Earth Angel" changes.' },
+  { id: 'three-chord', name: 'Three-Chord Song', romans: 'I IV V I', mode: 'Major', styles: ['Pop', 'Blues'], tags: ['cadence', 'classic'], description: 'Tonic, subdominant, dominant, home: the backbone of folk and rock.' },
+  { id: 'pop-punk', name: 'Pop-Punk', romans: 'I IV vi V', mode: 'Major', styles: ['Pop'], tags: ['loop'], description: 'A rotation of the axis chords with the vi in the middle.' },
+  { id: 'rock-vamp', name: 'Rock Vamp', romans: 'I V IV V', mode: 'Major', styles: ['Pop'], tags: ['loop'], description: 'The dominant answers the tonic and the subdominant.' },
+  { id: 'circle-turnaround', name: 'Circle Turnaround', romans: 'I vi ii V', mode: 'Major', styles: ['Pop', 'Jazz'], tags: ['turnaround', 'circle of fifths'], description: 'Every root after the first falls by a fifth.' },
+  { id: 'royal-road', name: 'Royal Road', romans: 'IV V iii vi', mode: 'Major', styles: ['Pop'], tags: ['loop'], description: 'A J-pop staple that never lands on I.' },
+  { id: 'pachelbel', name: 'Pachelbel Canon', romans: 'I V vi iii IV I IV V', mode: 'Major', styles: ['Pop'], tags: ['classical', 'descending bass'], description: 'The Canon in D ground bass, borrowed by countless ballads.' },
+  { id: 'mixolydian-rock', name: 'Mixolydian Rock', romans: 'I bVII IV I', mode: 'Major', styles: ['Pop'], tags: ['borrowed', 'modal'], description: 'The flat seven borrowed from Mixolydian, as in "Sweet Child O\' Mine".' },
+  { id: 'minor-plagal', name: 'Minor Plagal', romans: 'I IV iv I', mode: 'Major', styles: ['Pop'], tags: ['borrowed', 'cadence'], description: 'The IV turns minor on its way home, a Beatles favourite.' },
+  { id: 'ascending-pop', name: 'Ascending Pop', romans: 'I iii IV V', mode: 'Major', styles: ['Pop'], tags: ['loop'], description: 'Climbs step by step towards the dominant.' },
+  { id: 'lydian-vamp', name: 'Lydian Vamp', romans: 'I II I II', mode: 'Lydian', styles: ['Pop'], tags: ['modal'], description: 'The major II gives the raised fourth its dreamy sound.' },
+
+  // Minor and modal
+  { id: 'andalusian', name: 'Andalusian Cadence', romans: 'i bVII bVI V', mode: 'Natural Minor', styles: ['Pop'], tags: ['cadence', 'descending bass', 'flamenco'], description: 'A stepwise descent to the major V, from flamenco to "Hit the Road Jack".' },
+  { id: 'aeolian-vamp', name: 'Aeolian Vamp', romans: 'i bVII bVI bVII', mode: 'Natural Minor', styles: ['Pop'], tags: ['loop', 'modal'], description: 'Rocks between the minor tonic and its flat neighbours.' },
+  { id: 'epic-minor', name: 'Epic Minor', romans: 'i bVI bIII bVII', mode: 'Natural Minor', styles: ['Pop'], tags: ['loop'], description: 'The minor-key axis of film scores and anthems.' },
+  { id: 'minor-iv-v', name: 'Minor i–iv–v', romans: 'i iv v i', mode: 'Natural Minor', styles: ['Pop', 'Blues'], tags: ['cadence'], description: 'A soft minor cadence with no leading tone.' },
+  { id: 'minor-rock', name: 'Minor Rock', romans: 'i iv bVII bIII', mode: 'Natural Minor', styles: ['Pop'], tags: ['loop', 'circle of fifths'], description: 'Falling fifths through the relative major.' },
+  { id: 'minor-harmonic', name: 'Harmonic Minor Cadence', romans: 'i iv V i', mode: 'Harmonic Minor', styles: ['Pop'], tags: ['cadence'], description: 'The raised seventh makes a major V with a strong pull home.' },
+  { id: 'dorian-vamp', name: 'Dorian Vamp', romans: 'i IV i IV', mode: 'Dorian', styles: ['Pop', 'Jazz'], tags: ['loop', 'modal'], description: 'The major IV is the Dorian sound of "Oye Como Va".' },
+  { id: 'dorian-groove', name: 'Dorian Groove', romans: 'i7 IV7 i7 v7', mode: 'Dorian', styles: ['Jazz', 'Blues'], tags: ['loop', 'modal'], description: 'A funk vamp on the Dorian minor seventh.' },
+  { id: 'phrygian-vamp', name: 'Phrygian Vamp', romans: 'i bII i bII', mode: 'Phrygian', styles: ['Pop'], tags: ['loop', 'modal', 'flamenco'], description: 'The half step above the root gives the Spanish Phrygian colour.' },
+
+  // Jazz
+  { id: 'ii-v-i', name: 'ii–V–I', romans: 'ii7 V7 Imaj7', mode: 'Major', styles: ['Jazz'], tags: ['cadence', 'ii-V'], description: 'The core cadence of jazz harmony.' },
+  { id: 'minor-ii-v-i', name: 'Minor ii–V–i', romans: 'iiø7 V7 i', mode: 'Harmonic Minor', styles: ['Jazz'], tags: ['cadence', 'ii-V'], description: 'The half-diminished ii and altered V of minor keys.' },
+  { id: 'jazz-turnaround', name: 'I–vi–ii–V Turnaround', romans: 'Imaj7 vi7 ii7 V7', mode: 'Major', styles: ['Jazz'], tags: ['turnaround', 'circle of fifths'], description: 'The standard end-of-chorus turnaround.' },
+  { id: 'secondary-turnaround', name: 'Secondary Turnaround', romans: 'Imaj7 V7/ii ii7 V7', mode: 'Major', styles: ['Jazz'], tags: ['turnaround', 'secondary dominant'], description: 'The vi7 becomes a dominant that points at the ii.' },
+  { id: 'circle-fifths', name: 'Circle of Fifths', romans: 'iii7 vi7 ii7 V7 Imaj7', mode: 'Major', styles: ['Jazz'], tags: ['circle of fifths'], description: 'Four falling fifths into the tonic.' },
+  { id: 'diatonic-circle', name: 'Diatonic Circle', romans: 'Imaj7 IVmaj7 iii7 vi7 ii7 V7 Imaj7', mode: 'Major', styles: ['Jazz'], tags: ['circle of fifths'], description: 'Every chord of the key in falling fifths, as in "Autumn Leaves".' },
+  { id: 'tritone-sub', name: 'Tritone Sub ii–V–I', romans: 'ii7 subV7/I Imaj7', mode: 'Major', styles: ['Jazz'], tags: ['cadence', 'tritone sub'], description: 'The V7 swapped for the dominant a tritone away: chromatic bass into I.' },
+  { id: 'backdoor', name: 'Backdoor ii–V', romans: 'iv7 bVII7 Imaj7', mode: 'Major', styles: ['Jazz'], tags: ['cadence', 'borrowed'], description: 'Resolves home from the flat seven instead of the V.' },
+  { id: 'rhythm-changes-a', name: 'Rhythm Changes (A section)', romans: 'Imaj7 VI7 ii7 V7 Imaj7 VI7 ii7 V7 Imaj7 I7 IVmaj7 iv7 Imaj7 V7 Imaj7', mode: 'Major', styles: ['Jazz'], tags: ['standard', 'turnaround'], description: 'Gershwin\'s "I Got Rhythm" A section, the bebop test piece.' },
+
+  // Blues
+  { id: 'twelve-bar', name: '12-Bar Blues', romans: 'I7 I7 I7 I7 IV7 IV7 I7 I7 V7 IV7 I7 V7', mode: 'Major', styles: ['Blues'], tags: ['12-bar', 'form'], description: 'Four bars of I, two of IV, back to I, then the V–IV turnaround.' },
+  { id: 'twelve-bar-quick', name: '12-Bar Blues (Quick Change)', romans: 'I7 IV7 I7 I7 IV7 IV7 I7 I7 V7 IV7 I7 V7', mode: 'Major', styles: ['Blues'], tags: ['12-bar', 'form'], description: 'Jumps to IV in bar 2 before settling on I.' },
+  { id: 'twelve-bar-jazz', name: 'Jazz Blues', romans: 'I7 IV7 I7 v7 I7 IV7 #iv°7 I7 VI7 ii7 V7 I7 VI7 ii7 V7', mode: 'Major', styles: ['Blues', 'Jazz'], tags: ['12-bar', 'form', 'ii-V'], description: 'The 12-bar with ii–Vs, a passing diminished chord and a VI7 turnaround.' },
+  { id: 'twelve-bar-minor', name: 'Minor Blues', romans: 'i7 i7 i7 i7 iv7 iv7 i7 i7 bVI7 V7 i7 V7', mode: 'Natural Minor', styles: ['Blues'], tags: ['12-bar', 'form'], description: 'The 12-bar in minor, with the flat-six dominant leading to V.' },
+  { id: 'eight-bar', name: '8-Bar Blues', romans: 'I7 V7 IV7 IV7 I7 V7 I7 V7', mode: 'Major', styles: ['Blues'], tags: ['8-bar', 'form'], description: 'The shorter "Key to the Highway" form.' },
+];
+
+// --- NEXT-CHORD SUGGESTIONS ---
+// A small Markov model over key-relative chords, trained on the progression corpus.
+// States are "semitones above the key root + chord family" so the model works in any
+// key, and variations (Cadd9, C6) share their parent chord's statistics.
+
+interface ChordSuggestion {
+  chord: Chord;
+  score: number; // Model probability, 0-1
+  reason: string;
+}
+
+// Counts of next state per context: '^' (start), 'a' (one chord back) and 'a|b' (two back)
+type MarkovModel = Map<string, Map<string, number>>;
+
+const getChordFamily = (quality: string): string => {
+  const formula = getChordFormula(quality);
+  if (formula.includes('3') && formula.includes('b7')) return 'dom';
+  if (formula.includes('#5')) return 'aug';
+  if (formula.includes('3')) return 'maj';
+  if (formula.includes('b5')) return 'dim';
+  if (formula.includes('b3')) return 'min';
+  return 'sus';
+};
+
+const getChordState = (root: string, quality: string, keyRoot: string): string =>
+  `${(getPitchClass(root) - getPitchClass(keyRoot) + 12) % 12}${getChordFamily(quality)}`;
+
+const trainMarkovModel = (corpus: CorpusProgression[]): MarkovModel => {
+  const model: MarkovModel = new Map();
+  const count = (context: string, next: string) => {
+    const row = model.get(context) ?? new Map<string, number>();
+    row.set(next, (row.get(next) ?? 0) + 1);
+    model.set(context, row);
+  };
+  corpus.forEach(({ romans, mode }) => {
+    const states = splitProgressionText(romans)
+      .map(token => parseChordToken(token, 'C', mode))
+      .filter(p => p.root && p.quality !== undefined)
+      .map(p => getChordState(p.root!, p.quality!, 'C'));
+    if (states.length === 0) return;
+    count('^', states[0]);
+    // Progressions loop, so the last chord also leads back to the first
+    const looped = [...states, states[0]];
+    looped.slice(1).forEach((next, i) => {
+      count(looped[i], next);
+      if (i > 0) count(`${looped[i - 1]}|${looped[i]}`, next);
+    });
+  });
+  return model;
+};
+
+const getStateProbability = (model: MarkovModel, context: string, next: string): number => {
+  const row = model.get(context);
+  if (!row) return 0;
+  const total = [...row.values()].reduce((a, b) => a + b, 0);
+  return (row.get(next) ?? 0) / total;
+};
+
+// Interpolated trigram / bigram / start probabilities, so unseen pairs still get a little weight
+const getNextProbability = (model: MarkovModel, history: string[], next: string): number => {
+  if (history.length === 0) return getStateProbability(model, '^', next);
+  const last = history[history.length - 1];
+  const trigram = history.length > 1 ? getStateProbability(model, `${history[history.length - 2]}|${last}`, next) : 0;
+  const bigram = getStateProbability(model, last, next);
+  const start = getStateProbability(model, '^', next);
+  return (history.length > 1 ? 0.5 * trigram + 0.4 * bigram : 0.9 * bigram) + 0.1 * start;
+};
+
+// Major-third and minor-third keys move differently, so each gets its own model
+const getModeFamily = (scaleType: string): 'major' | 'minor' => SCALE_PATTERNS[scaleType][2] === 4 ? 'major' : 'minor';
+
+const SUGGESTION_MODELS: Record<'major' | 'minor', MarkovModel> = {
+  major: trainMarkovModel(PROGRESSION_CORPUS.filter(p => getModeFamily(p.mode) === 'major')),
+  minor: trainMarkovModel(PROGRESSION_CORPUS.filter(p => getModeFamily(p.mode) === 'minor')),
+};
+
+const suggestNextChords = (
+  progression: Chord[],
+  candidates: Chord[],
+  root: string,
+  scaleType: string,
+  tuning: TuningString[],
+  limit: number = 5,
+  model: MarkovModel = SUGGESTION_MODELS[getModeFamily(scaleType)]
+): ChordSuggestion[] => {
+  const history = progression.map(c => getChordState(c.root, c.quality, root));
+  const last = progression[progression.length - 1];
+
+  // One candidate per state, never the chord already sounding; the palette lists plain chords before their variations
+  const seen = new Set<string>(history.slice(-1));
+  const scored = candidates.flatMap(chord => {
+    const state = getChordState(chord.root, chord.quality, root);
+    if (seen.has(state)) return [];
+    seen.add(state);
+    return [{ chord, score: getNextProbability(model, history, state) }];
+  }).filter(s => s.score >= 0.01).sort((a, b) => b.score - a.score).slice(0, limit);
+
+  return scored.map(({ chord, score }) => {
+    const percent = Math.round(score * 100);
+    if (!last) return { chord, score, reason: `Opens ${percent}% of the bundled progressions.` };
+    // Let the analyzer say what the move does
+    const move = analyzeProgression([last, chord], root, scaleType, tuning).transitions[0];
+    const highlight = move.annotations.find(n => n.kind !== 'common-tones' && n.kind !== 'root-motion') ?? move.annotations[0];
+    return { chord, score, reason: `${percent}% likely after ${last.roman} in the corpus.${highlight ? ` ${highlight.detail}` : ''}` };
+  });
+};
+
+// --- SONG FORM ---
+// A progression can be split into named sections that own consecutive chords. A section
+// plays `repeats` times; with endings, its last chords split into a first ending (every
+// pass but the last) and a second ending (the last pass). The flat chord list stays the
+// source of truth, so voicings, voice leading and the library don't need to know about form.
+
+interface SongSection {
+  id: string;
+  name: string;
+  chordCount: number; // Consecutive chords of the progression, from where the previous section ends
+  repeats: number;
+  endings?: [number, number]; // Chords in the first and second ending, at the end of the section
+}
+
+interface PlaybackStep {
+  chordIdx: number;
+  sectionIdx: number; // -1 without sections
+  pass: number; // 1-based
+}
+
+interface SongFormTemplate {
+  id: string;
+  name: string;
+  description: string;
+  mode: string; // Scale type the numerals are read in
+  sections: { name: string, romans: string, repeats?: number, endings?: [number, number] }[]; // One chord per bar
+}
+
+const SONG_FORMS: SongFormTemplate[] = [
+  {
+    id: 'twelve-bar', name: '12-Bar Blues', description: 'Twice round the blues: the turnaround V7 leads back, the second ending lands on I7.', mode: 'Major',
+    sections: [{ name: 'Blues', romans: 'I7 I7 I7 I7 IV7 IV7 I7 I7 V7 IV7 I7 V7 I7', repeats: 2, endings: [1, 1] }],
+  },
+  {
+    id: 'twelve-bar-quick', name: '12-Bar Blues (Quick Change)', description: 'The 12-bar with a quick change to IV7 in bar 2.', mode: 'Major',
+    sections: [{ name: 'Blues', romans: 'I7 IV7 I7 I7 IV7 IV7 I7 I7 V7 IV7 I7 V7 I7', repeats: 2, endings: [1, 1] }],
+  },
+  {
+    id: 'eight-bar', name: '8-Bar Blues', description: 'The shorter blues form, played twice.', mode: 'Major',
+    sections: [{ name: 'Blues', romans: 'I7 V7 IV7 IV7 I7 V7 I7 V7 I7', repeats: 2, endings: [1, 1] }],
+  },
+  {
+    id: 'sixteen-bar', name: '16-Bar Blues', description: 'The 12-bar with the V7–IV7 bars doubled before the turnaround.', mode: 'Major',
+    sections: [{ name: 'Blues', romans: 'I7 I7 I7 I7 IV7 IV7 I7 I7 V7 IV7 V7 IV7 I7 I7 I7 V7' }],
+  },
+  {
+    id: 'aaba', name: '32-Bar AABA', description: 'Tin Pan Alley form: two A sections with different endings, a bridge, and a final A.', mode: 'Major',
+    sections: [
+      { name: 'A', romans: 'I vi ii V I vi ii V I I', repeats: 2, endings: [2, 2] },
+      { name: 'B', romans: 'III7 III7 VI7 VI7 II7 II7 V7 V7' },
+      { name: 'A', romans: 'I vi ii V I V I I' },
+    ],
+  },
+  {
+    id: 'verse-chorus', name: 'Verse / Chorus', description: 'Intro, a repeated verse and a chorus whose second ending resolves home.', mode: 'Major',
+    sections: [
+      { name: 'Intro', romans: 'I V vi IV' },
+      { name: 'Verse', romans: 'vi IV I V vi IV I V', repeats: 2 },
+      { name: 'Chorus', romans: 'I V vi IV I V IV V I', repeats: 2, endings: [1, 1] },
+    ],
+  },
+];
+
+const createSectionId = () => `section-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Endings can't take more chords than the section has, and only a repeated section has them
+const clampEndings = (section: SongSection): SongSection => {
+  if (!section.endings) return section;
+  if (section.repeats < 2) return { ...section, endings: undefined };
+  const first = Math.min(section.endings[0], section.chordCount);
+  const second = Math.min(section.endings[1], section.chordCount - first);
+  return { ...section, endings: first + second > 0 ? [first, second] : undefined };
+};
+
+// Makes the chord counts add up to the progression: the last section takes any new chords,
+// and chords missing from the end come off the last sections first. New chords after a
+// section with endings get a section of their own instead of turning into its second ending.
+const fitSections = (sections: SongSection[], length: number): SongSection[] => {
+  let excess = sections.reduce((sum, s) => sum + s.chordCount, 0) - length;
+  const last = sections[sections.length - 1];
+  if (excess < 0 && last?.endings) {
+    // Derived id, so the section keeps its identity until it is stored
+    const name = String.fromCharCode(65 + sections.length % 26);
+    return [...sections.map(clampEndings), { id: `${last.id}-next`, name, chordCount: -excess, repeats: 1 }];
+  }
+  const fitted = [...sections];
+  for (let i = fitted.length - 1; i >= 0 && excess !== 0; i--) {
+    const change = excess < 0 ? excess : Math.min(excess, fitted[i].chordCount);
+    fitted[i] = { ...fitted[i], chordCount: fitted[i].chordCount - change };
+    excess -= change;
+  }
+  return fitted.map(clampEndings);
+};
+
+const getSectionStarts = (sections: SongSection[]): number[] =>
+  sections.map((_, i) => sections.slice(0, i).reduce((sum, s) => sum + s.chordCount, 0));
+
+// Every chord in the order it sounds, following repeats and endings
+const getPlaybackPlan = (sections: SongSection[] | null, length: number): PlaybackStep[] => {
+  if (!sections) return Array.from({ length }, (_, chordIdx) => ({ chordIdx, sectionIdx: -1, pass: 1 }));
+  const starts = getSectionStarts(sections);
+  return sections.flatMap((section, sectionIdx) => {
+    const start = starts[sectionIdx];
+    const [first, second] = section.endings ?? [0, 0];
+    const bodyEnd = start + section.chordCount - first - second;
+    const range = (from: number, count: number) => Array.from({ length: count }, (_, i) => from + i);
+    return range(1, Math.max(1, section.repeats)).flatMap(pass => {
+      const isLast = pass === Math.max(1, section.repeats);
+      const ending = isLast ? range(bodyEnd + first, second) : range(bodyEnd, first);
+      return [...range(start, bodyEnd - start), ...ending].map(chordIdx => ({ chordIdx, sectionIdx, pass }));
+    });
+  });
+};
+
+// Which ending (1 or 2) a chord belongs to, or 0 for the body
+const getEndingNumber = (sections: SongSection[], chordIdx: number): number => {
+  const starts = getSectionStarts(sections);
+  const sectionIdx = starts.findIndex((start, i) => chordIdx >= start && chordIdx < start + sections[i].chordCount);
+  const section = sections[sectionIdx];
+  if (!section?.endings) return 0;
+  const [first, second] = section.endings;
+  const fromEnd = starts[sectionIdx] + section.chordCount - chordIdx;
+  return fromEnd <= second ? 2 : fromEnd <= second + first ? 1 : 0;
+};
+
+// Bars in one pass through the section, ending on the second ending
+const getSectionBars = (section: SongSection, settings: TransportSettings): number =>
+  Math.round((section.chordCount - (section.endings?.[0] ?? 0)) * settings.beatsPerChord / settings.beatsPerBar * 10) / 10;
+
+const removeChordFromSections = (sections: SongSection[], chordIdx: number): SongSection[] => {
+  const starts = getSectionStarts(sections);
+  return sections.map((s, i) => chordIdx >= starts[i] && chordIdx < starts[i] + s.chordCount
+    ? clampEndings({ ...s, chordCount: s.chordCount - 1 })
+    : s);
+};
+
+// Starts a new section at `chordIdx`, taking the rest of the section it was in. A section
+// with endings can't be split, since neither half could keep its repeat structure.
+const splitSectionAt = (sections: SongSection[], chordIdx: number): SongSection[] => {
+  const starts = getSectionStarts(sections);
+  const i = starts.findIndex((start, k) => chordIdx > start && chordIdx < start + sections[k].chordCount);
+  if (i === -1 || sections[i].endings) return sections;
+  const head = chordIdx - starts[i];
+  const name = String.fromCharCode(65 + sections.length % 26);
+  return [
+    ...sections.slice(0, i),
+    clampEndings({ ...sections[i], chordCount: head, endings: undefined }),
+    clampEndings({ ...sections[i], id: createSectionId(), name, chordCount: sections[i].chordCount - head, repeats: 1 }),
+    ...sections.slice(i + 1),
+  ];
+};
+
+// `palette` must be the chords of `root` in the template's mode
+const buildSongForm = (
+  template: SongFormTemplate,
+  root: string,
+  palette: Chord[],
+  tuning: TuningString[],
+  instrument: Instrument
+): { chords: Chord[], sections: SongSection[], errors: ParsedToken[] } => {
+  const built = template.sections.map(s =>
+    buildParsedChords(splitProgressionText(s.romans).map(token => parseChordToken(token, root, template.mode)), palette, root, template.mode, tuning, instrument));
+  return {
+    chords: built.flatMap((b, i) => b.chords.map(c => ({ ...c, id: `${c.id}-s${i}` }))),
+    sections: template.sections.map((s, i) => clampEndings({
+      id: createSectionId(),
+      name: s.name,
+      chordCount: built[i].chords.length,
+      repeats: s.repeats ?? 1,
+      endings: s.endings,
+    })),
+    errors: built.flatMap(b => b.errors),
+  };
+};
+
+// --- MIDI EXPORT ---
+// Standard MIDI File, Type 1: a conductor track (tempo, meter, chord markers)
+// plus one guitar track holding the exact pitches of each chord's active voicing.
+
+const MIDI_PPQ = 480; // Ticks per quarter note
+
+const writeVarLen = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  value >>= 7;
+  while (value > 0) {
+    bytes.unshift((value & 0x7f) | 0x80);
+    value >>= 7;
+  }
+  return bytes;
+};
+
+const textBytes = (text: string) => Array.from(new TextEncoder().encode(text));
+
+const metaEvent = (type: number, data: number[]) => [0xff, type, ...writeVarLen(data.length), ...data];
+
+const u32 = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const u16 = (n: number) => [(n >>> 8) & 0xff, n & 0xff];
+
+interface MidiEvent { tick: number; order: number; data: number[] }
+
+// Sorts absolute-time events and turns them into a delta-timed MTrk chunk.
+// `order` keeps note-offs ahead of note-ons that land on the same tick.
+const buildTrack = (events: MidiEvent[]): number[] => {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const body: number[] = [];
+  let lastTick = 0;
+  sorted.forEach(e => {
+    body.push(...writeVarLen(e.tick - lastTick), ...e.data);
+    lastTick = e.tick;
+  });
+  body.push(...writeVarLen(0), ...metaEvent(0x2f, []));
+  return [...textBytes('MTrk'), ...u32(body.length), ...body];
+};
+
+const getVoicingMidiNotes = (chord: Chord, tuning: TuningString[]): number[] => {
+  const voicing = chord.voicings[chord.activeVoicingIdx];
+  if (!voicing) return [];
+  return voicing.frets
+    .map((fret, stringIdx) => getPitchAtFret(stringIdx, fret, tuning))
+    .filter((p): p is number => p !== null);
+};
+
+const createMidiFile = (progression: Chord[], settings: TransportSettings, title: string, tuning: TuningString[] = GUITAR_TUNING): Uint8Array => {
+  const ticksPerBeat = MIDI_PPQ * 4 / settings.beatUnit;
+  const chordTicks = Math.round(ticksPerBeat * settings.beatsPerChord);
+  const microsPerQuarter = Math.round(60_000_000 / settings.bpm * settings.beatUnit / 4);
+
+  const conductor: MidiEvent[] = [
+    { tick: 0, order: 0, data: metaEvent(0x03, textBytes(title)) },
+    { tick: 0, order: 0, data: metaEvent(0x51, [(microsPerQuarter >> 16) & 0xff, (microsPerQuarter >> 8) & 0xff, microsPerQuarter & 0xff]) },
+    { tick: 0, order: 0, data: metaEvent(0x58, [settings.beatsPerBar, Math.log2(settings.beatUnit), 24, 8]) },
+  ];
+
+  const channel = 0;
+  const guitar: MidiEvent[] = [
+    { tick: 0, order: 0, data: metaEvent(0x03, textBytes('Guitar')) },
+    { tick: 0, order: 0, data: [0xc0 | channel, 25] }, // Acoustic Guitar (steel)
+  ];
+
+  progression.forEach((chord, i) => {
+    const start = i * chordTicks;
+    const end = start + chordTicks;
+    conductor.push({ tick: start, order: 1, data: metaEvent(0x06, textBytes(chord.name)) }); // Marker
+    guitar.push({ tick: start, order: 1, data: metaEvent(0x05, textBytes(chord.name)) }); // Lyric
+    getVoicingMidiNotes(chord, tuning).forEach(pitch => {
+      guitar.push({ tick: start, order: 2, data: [0x90 | channel, pitch, 90] });
+      guitar.push({ tick: end, order: 0, data: [0x80 | channel, pitch, 0] });
+    });
+  });
+
+  const header = [...textBytes('MThd'), ...u32(6), ...u16(1), ...u16(2), ...u16(MIDI_PPQ)];
+  return new Uint8Array([...header, ...buildTrack(conductor), ...buildTrack(guitar)]);
+};
+
+// --- AUDIO EXPORT ---
+// Bounces the progression through the same voice graph into an OfflineAudioContext
+// and encodes the result as a 16-bit PCM WAV.
+
+const RENDER_SAMPLE_RATE = 44100;
+const RENDER_TAIL = 3; // Seconds of ring-out after the last chord
+
+const renderProgressionAudio = async (
+  length: number,
+  settings: TransportSettings,
+  scheduleChord: (idx: number, time: number, duration: number, target: AudioTarget) => void,
+  countIn: boolean
+): Promise<AudioBuffer> => {
+  const secondsPerBeat = getSecondsPerBeat(settings);
+  const chordDuration = secondsPerBeat * settings.beatsPerChord;
+  const countInBeats = countIn ? settings.beatsPerBar : 0;
+  const start = countInBeats * secondsPerBeat;
+  const totalSeconds = start + length * chordDuration + RENDER_TAIL;
+
+  const ctx = new OfflineAudioContext(2, Math.ceil(totalSeconds * RENDER_SAMPLE_RATE), RENDER_SAMPLE_RATE);
+  const target: AudioTarget = { ctx, destination: ctx.destination, live: false };
+
+  for (let beat = 0; beat < countInBeats; beat++) {
+    playClick(target, beat * secondsPerBeat, beat === 0);
+  }
+  for (let i = 0; i < length; i++) {
+    scheduleChord(i, start + i * chordDuration, chordDuration, target);
+  }
+  return ctx.startRendering();
+};
+
+const encodeWav = (buffer: AudioBuffer): Blob => {
+  const channels = buffer.numberOfChannels;
+  const frames = buffer.length;
+  const bytesPerSample = 2;
+  const dataSize = frames * channels * bytesPerSample;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * channels * bytesPerSample, true);
+  view.setUint16(32, channels * bytesPerSample, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channelData = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = Math.max(-1, Math.min(1, channelData[c][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += bytesPerSample;
+    }
+  }
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// --- LIBRARY ---
+// Saved sessions live in localStorage. Chords are stored whole (voicings included) so a
+// session comes back exactly as it was, even after a Voicing Finder search. The working
+// session is saved on every change so a reload picks up where you left off.
+
+interface SessionState {
+  root: string;
+  scaleType: string;
+  style: string;
+  progression: Chord[];
+  transport: TransportSettings;
+  patternId: string;
+  customArpOrder: string;
+  synthVoice: SynthVoice;
+  countIn: boolean;
+  instrumentId: string;
+  tuningId: string;
+  customTuning: string;
+  capo: number;
+  sections?: SongSection[] | null; // Song form; absent in sessions saved before sections existed
+}
+
+interface SavedSession extends SessionState {
+  id: string;
+  name: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+  openedAt: number;
+}
+
+const LIBRARY_KEY = 'chordlab.library.v1';
+const WORKING_SESSION_KEY = 'chordlab.working.v1';
+const RECENT_COUNT = 5;
+
+const DEFAULT_SESSION: SessionState = {
+  root: 'C',
+  scaleType: 'Major',
+  style: 'Pop',
+  progression: [],
+  transport: DEFAULT_TRANSPORT,
+  patternId: DEFAULT_PATTERN_ID,
+  customArpOrder: '6 4 3 2 3 4', // Guitar string numbers, 6 = low E
+  synthVoice: 'plucked',
+  countIn: true,
+  instrumentId: 'guitar',
+  tuningId: 'standard',
+  customTuning: formatTuning(GUITAR_TUNING),
+  capo: 0,
+  sections: null,
+};
+
+// localStorage can hold anything (old formats, hand edits), so stored sessions are checked
+// field by field; a field that doesn't fit is dropped and the default takes its place.
+
+const isRecord = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isIndex = (value: unknown, min: number, max: number) => Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const isStoredVoicing = (v: unknown): v is Voicing =>
+  isRecord(v) && typeof v.name === 'string' && Array.isArray(v.frets) && v.frets.every(f => Number.isInteger(f));
+
+const isStoredChord = (c: unknown): c is Chord =>
+  isRecord(c) && ['id', 'root', 'quality', 'name', 'roman', 'function', 'category'].every(k => typeof c[k] === 'string')
+  && Array.isArray(c.notes) && Array.isArray(c.voicings) && c.voicings.every(isStoredVoicing)
+  && isIndex(c.activeVoicingIdx, 0, c.voicings.length - 1);
+
+const isStoredSection = (s: unknown): s is SongSection =>
+  isRecord(s) && typeof s.id === 'string' && typeof s.name === 'string'
+  && isIndex(s.chordCount, 0, Infinity) && isIndex(s.repeats, 1, Infinity)
+  && (s.endings === undefined || (Array.isArray(s.endings) && s.endings.length === 2 && s.endings.every(n => isIndex(n, 0, Infinity))));
+
+const isStoredTransport = (t: unknown): t is TransportSettings =>
+  isRecord(t) && ['bpm', 'beatsPerBar', 'beatUnit', 'beatsPerChord'].every(k => Number.isFinite(t[k]) && t[k] > 0) && typeof t.loop === 'boolean';
+
+// The fields of a stored session that are usable; sections only come along with their progression
+const readSessionFields = (value: unknown): Partial<SessionState> => {
+  if (!isRecord(value)) return {};
+  const fields: Partial<SessionState> = {};
+  if (KEY_ROOTS.includes(value.root)) fields.root = value.root;
+  if (typeof value.scaleType === 'string' && Object.hasOwn(SCALE_PATTERNS, value.scaleType)) fields.scaleType = value.scaleType;
+  if (MUSIC_STYLES.some(s => s.id === value.style)) fields.style = value.style;
+  if (Array.isArray(value.progression) && value.progression.every(isStoredChord)) {
+    fields.progression = value.progression;
+    if (Array.isArray(value.sections) && value.sections.every(isStoredSection)) fields.sections = value.sections;
+  }
+  if (isStoredTransport(value.transport)) fields.transport = value.transport;
+  if (RHYTHM_PATTERNS.some(p => p.id === value.patternId)) fields.patternId = value.patternId;
+  if (typeof value.customArpOrder === 'string') fields.customArpOrder = value.customArpOrder;
+  if (SYNTH_VOICES.some(v => v.id === value.synthVoice)) fields.synthVoice = value.synthVoice;
+  if (typeof value.countIn === 'boolean') fields.countIn = value.countIn;
+  if (INSTRUMENTS.some(i => i.id === value.instrumentId)) fields.instrumentId = value.instrumentId;
+  if (typeof value.tuningId === 'string') fields.tuningId = value.tuningId;
+  if (typeof value.customTuning === 'string') fields.customTuning = value.customTuning;
+  if (isIndex(value.capo, 0, 12)) fields.capo = value.capo;
+  return fields;
+};
+
+// A saved session needs an id and a name; anything else missing falls back to the defaults
+const readSavedSession = (value: unknown): SavedSession | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string') return null;
+  const time = (t: unknown) => Number.isFinite(t) ? t as number : 0;
+  return {
+    ...DEFAULT_SESSION,
+    ...readSessionFields(value),
+    id: value.id,
+    name: value.name,
+    tags: Array.isArray(value.tags) ? value.tags.filter((t: unknown): t is string => typeof t === 'string') : [],
+    createdAt: time(value.createdAt),
+    updatedAt: time(value.updatedAt),
+    openedAt: time(value.openedAt),
+  };
+};
+
+const readStorage = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeStorage = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error('Could not save to local storage', e);
+  }
+};
+
+const loadLibrary = (): SavedSession[] => {
+  const stored = readStorage<unknown>(LIBRARY_KEY, []);
+  return Array.isArray(stored) ? stored.map(readSavedSession).filter((s): s is SavedSession => s !== null) : [];
+};
+const saveLibrary = (sessions: SavedSession[]) => writeStorage(LIBRARY_KEY, sessions);
+const loadWorkingSession = (): SessionState => ({ ...DEFAULT_SESSION, ...readSessionFields(readStorage<unknown>(WORKING_SESSION_KEY, {})) });
+const saveWorkingSession = (state: SessionState) => writeStorage(WORKING_SESSION_KEY, state);
+
+const createSessionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)));
+
+// Matches the name, the key, any tag or any chord name
+const searchSessions = (sessions: SavedSession[], query: string): SavedSession[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return sessions;
+  return sessions.filter(session =>
+    session.name.toLowerCase().includes(q)
+    || `${session.root} ${session.scaleType}`.toLowerCase().includes(q)
+    || session.tags.some(t => t.includes(q))
+    || session.progression.some(c => c.name.toLowerCase() === q));
+};
+
+const getRecentSessions = (sessions: SavedSession[]): SavedSession[] =>
+  [...sessions].sort((a, b) => b.openedAt - a.openedAt).slice(0, RECENT_COUNT);
+
+// --- SHARE LINKS ---
+// A progression packed into the URL hash, e.g.
+//   #v1;C;Major;Pop;guitar,standard,0,;96,block;I,C,0;vi,Am,2,travis
+// Fields are `;`-separated and sub-fields `,`-separated, each URI-encoded so neither can
+// appear inside one. Chords are stored by roman numeral and name, not voicing data, and
+// rebuilt through generateKeyChords; bump SHARE_VERSION whenever that contract changes.
+
+const SHARE_VERSION = 1;
+
+type SharedState = Pick<SessionState,
+  'root' | 'scaleType' | 'style' | 'progression' | 'instrumentId' | 'tuningId' | 'customTuning' | 'capo' | 'patternId'
+> & { bpm: number };
+
+type ShareDecodeResult = { state: SharedState } | { error: string };
+
+const encodeShareHash = (state: SessionState): string => {
+  const field = (...parts: (string | number)[]) => parts.map(p => encodeURIComponent(p)).join(',');
+  const isCustom = state.tuningId === CUSTOM_TUNING_ID;
+  return [
+    `v${SHARE_VERSION}`,
+    field(state.root),
+    field(state.scaleType),
+    field(state.style),
+    field(state.instrumentId, state.tuningId, state.capo, isCustom ? state.customTuning : ''),
+    field(state.transport.bpm, state.patternId),
+    ...state.progression.map(c => field(c.roman, c.name, c.activeVoicingIdx, ...(c.patternId ? [c.patternId] : [])))
+  ].join(';');
 };
 
-const getQualityFromIntervals = (third: number, fifth: number, seventh: number | null): string => {
-    if (seventh !== null) {
-      if (third === 4 && fifth === 7 && seventh === 11) return 'maj7';
-      if (third === 4 && fifth === 7 && seventh === 10) return '7'; // Dom7
-      if (third === 3 && fifth === 7 && seventh === 10) return 'm7';
-      if (third === 3 && fifth === 7 && seventh === 11) return 'mMaj7'; // Jazz Minor I
-      if (third === 3 && fifth === 6 && seventh === 10) return 'm7b5'; // Half Dim
-      if (third === 3 && fifth === 6 && seventh === 9) return 'dim7'; // Full Dim
-    }
-    // Fallback to Triads
-    if (third === 4 && fifth === 7) return '';
-    if (third === 3 && fifth === 7) return 'm';
-    if (third === 3 && fifth === 6) return 'dim';
-    return '';
+const decodeShareHash = (hash: string): ShareDecodeResult => {
+  const fields = hash.replace(/^#/, '').split(';');
+  const version = fields[0].match(/^v(\d+)$/);
+  if (!version) return { error: 'This link does not contain a progression.' };
+  if (Number(version[1]) !== SHARE_VERSION) return { error: `This link uses share format v${version[1]}, which this version of ChordLab can't read.` };
+  if (fields.length < 6) return { error: 'This link is incomplete.' };
+
+  let parts: string[][];
+  try {
+    parts = fields.map(f => f.split(',').map(decodeURIComponent));
+  } catch {
+    return { error: 'This link is damaged.' };
+  }
+  const [, [root], [scaleType], [style], [instrumentId, tuningId, capoText, customTuning], [bpmText, patternId], ...chordParts] = parts;
+
+  if (!KEY_ROOTS.includes(root)) return { error: `Unknown key "${root}".` };
+  if (!Object.hasOwn(SCALE_PATTERNS, scaleType)) return { error: `Unknown mode "${scaleType}".` };
+  if (!MUSIC_STYLES.some(s => s.id === style)) return { error: `Unknown style "${style}".` };
+  const instrument = INSTRUMENTS.find(i => i.id === instrumentId);
+  if (!instrument) return { error: `Unknown instrument "${instrumentId}".` };
+  const isCustom = tuningId === CUSTOM_TUNING_ID;
+  if (!isCustom && !instrument.tunings.some(t => t.id === tuningId)) return { error: `Unknown tuning "${tuningId}".` };
+  if (isCustom && !parseTuning(customTuning ?? '')) return { error: 'The custom tuning in this link is invalid.' };
+  const capo = Number(capoText);
+  const bpm = Number(bpmText);
+  if (!Number.isInteger(capo) || capo < 0 || capo > 12) return { error: 'The capo position in this link is invalid.' };
+  if (!Number.isFinite(bpm) || bpm < 20 || bpm > 400) return { error: 'The tempo in this link is invalid.' };
+  if (!RHYTHM_PATTERNS.some(p => p.id === patternId)) return { error: `Unknown rhythm pattern "${patternId}".` };
+
+  const tuning = getSoundingTuning(instrument, tuningId, customTuning ?? '', capo);
+  const palette = generateKeyChords(root, scaleType, style, tuning, instrument);
+  const progression: Chord[] = [];
+  for (const [i, [roman, name, voicingText, chordPattern]] of chordParts.entries()) {
+    const match = (name ?? '').match(/^([A-G][#b]*)(.*)$/);
+    if (!roman || !match || !Object.hasOwn(CHORD_FORMULAS, match[2])) return { error: `Chord ${i + 1} ("${name}") is not a chord ChordLab knows.` };
+    // Palette chords keep their function and category; anything else is rebuilt from its name
+    const template = palette.find(c => c.roman === roman && isSameNote(c.root, match[1]) && c.quality === match[2])
+      ?? buildChord(match[2], match[1], roman, 'Stranger', 'Wildcard', 'shared', -1, tuning, instrument);
+    const voicingIdx = Number(voicingText);
+    progression.push({
+      ...template,
+      id: `${template.id}-shared-${i}`,
+      activeVoicingIdx: Number.isInteger(voicingIdx) && voicingIdx >= 0 && voicingIdx < template.voicings.length ? voicingIdx : 0,
+      ...(chordPattern && RHYTHM_PATTERNS.some(p => p.id === chordPattern) ? { patternId: chordPattern } : {})
+    });
+  }
+
+  return {
+    state: { root, scaleType, style, progression, instrumentId, tuningId, customTuning: customTuning || formatTuning(instrument.tunings[0].strings), capo, patternId, bpm }
+  };
 };
 
-// Generates chords for a specific key and style
-const generateKeyChords = (root: string, scaleType: string, style: string): Chord[] => {
-  const rootIdx = ALL_NOTES.indexOf(root);
-  const pattern = SCALE_PATTERNS[scaleType];
-  const scaleNotes = pattern.map(interval => ALL_NOTES[(rootIdx + interval) % 12]);
-  
-  const allChords: Chord[] = [];
+const isShareHash = (hash: string) => /^#?v\d+;/.test(hash);
 
-  // 1. DIATONIC TEAM
-  scaleNotes.forEach((note, i) => {
-    const chordRootVal = ALL_NOTES.indexOf(note);
+// --- AI ANALYST ---
+// The analyst sits behind a small provider interface so it can run against Gemini, a local
+// OpenAI-compatible server (Ollama, LM Studio, llama.cpp) or a deterministic mock built on the
+// rule-based analysis. Every provider returns the same JSON shape, validated before use.
 
-    let thirdNote = scaleNotes[(i + 2) % 7];
-    let fifthNote = scaleNotes[(i + 4) % 7];
-    let seventhNote = scaleNotes[(i + 6) % 7];
+type HarmonicRole = 'tonic' | 'predominant' | 'dominant' | 'secondary' | 'borrowed' | 'passing';
 
-    let useSevenths = (style === 'Jazz' || style === 'Blues');
-    let isBluesDominant = false;
+interface AiAnalysis {
+  chords: { name: string, role: HarmonicRole, comment: string }[];
+  transitions: { from: number, to: number, comment: string }[];
+  summary: string;
+}
 
-    // Blues Override
-    if (style === 'Blues' && (i === 0 || i === 3 || i === 4)) {
-       isBluesDominant = true;
-       thirdNote = ALL_NOTES[(chordRootVal + 4) % 12];
-       seventhNote = ALL_NOTES[(chordRootVal + 10) % 12];
-       useSevenths = true;
-    }
+interface AnalysisRequest {
+  root: string;
+  scaleType: string;
+  style: string;
+  progression: Chord[];
+  analysis: ProgressionAnalysis; // Rule-based findings, passed to the model as hints
+}
 
-    const thirdVal = ALL_NOTES.indexOf(thirdNote);
-    const fifthVal = ALL_NOTES.indexOf(fifthNote);
-    const seventhVal = ALL_NOTES.indexOf(seventhNote);
-    
-    const thirdInterval = (thirdVal - chordRootVal + 12) % 12;
-    const fifthInterval = (fifthVal - chordRootVal + 12) % 12;
-    const seventhInterval = (seventhVal - chordRootVal + 12) % 12;
-    
-    let quality = getQualityFromIntervals(thirdInterval, fifthInterval, useSevenths ? seventhInterval : null);
+interface RerankRequest {
+  root: string;
+  scaleType: string;
+  style: string;
+  progression: Chord[];
+  candidates: ChordSuggestion[]; // From the local model, best first
+}
 
-    // Determine Function
-    let func: Chord['function'] = 'Adventure'; 
-    if (i === 0) func = 'Home'; // I
-    if (i === 4) func = 'Tension'; // V
-    if (i === 6) func = 'Tension'; // vii
-    if (i === 2 || i === 5) func = 'Home'; // iii, vi
-    if (i === 1 || i === 3) func = 'Adventure'; // ii, IV
+interface AnalysisProvider {
+  id: string;
+  name: string;
+  analyze: (request: AnalysisRequest) => Promise<AiAnalysis>;
+  rerank?: (request: RerankRequest) => Promise<ChordSuggestion[]>; // Only the LLM backends re-rank
+}
 
-    if (style === 'Blues' || scaleType === 'Mixolydian') {
-       if (i === 0) func = 'Home'; if (i === 3) func = 'Adventure'; if (i === 4) func = 'Tension';
-    }
+interface AiSettings {
+  providerId: string;
+  geminiModel: string;
+  localUrl: string; // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  localModel: string;
+}
 
-    let roman = ROMAN_NUMERALS[i];
-    if (thirdInterval === 4) roman = roman.toUpperCase();
-    if (quality.includes('7')) roman += '7';
-    if (quality === 'maj7') roman = roman.replace('7', 'Maj7');
-    if (quality === 'm7b5') roman += 'ø';
-    if (quality === 'dim7') roman += '°7';
+const HARMONIC_ROLES: HarmonicRole[] = ['tonic', 'predominant', 'dominant', 'secondary', 'borrowed', 'passing'];
 
-    // Build Chord Object
-    const buildChord = (q: string, n: string, r: string, f: Chord['function'], cat: Chord['category'], customId: string = '') => {
-        const voicings: Voicing[] = [];
-        let shapeKey = q;
-        if (!CHORD_SHAPES[shapeKey]) {
-            if (q === 'mMaj7') shapeKey = 'm7'; 
-            else if (q.startsWith('m')) shapeKey = 'm';
-            else if (q.startsWith('dim')) shapeKey = 'dim';
-            else shapeKey = '';
-        }
-        const shapeTemplate = CHORD_SHAPES[shapeKey] || CHORD_SHAPES['']; 
+const AI_PROVIDERS = [
+  { id: 'gemini', name: 'Gemini' },
+  { id: 'local', name: 'Local (OpenAI-compatible)' },
+  { id: 'mock', name: 'Offline (rule-based)' },
+];
 
-        // E-Shape
-        const eStringIdx = ALL_NOTES.indexOf('E');
-        const eShapeRootFret = (ALL_NOTES.indexOf(n) - eStringIdx + 12) % 12; 
-        const eFrets = createVoicingFromShape(shapeTemplate.eShape, eShapeRootFret);
-        const isEBarre = eFrets.some(fr => fr > 0) && eShapeRootFret > 0;
-        voicings.push({
-            name: !isEBarre ? "Open / Bottom" : `Root on E (Fret ${eShapeRootFret || 12})`,
-            frets: eFrets,
-            baseFret: Math.min(...eFrets.filter(fr => fr !== -1)) || 1
-        });
+const AI_SETTINGS_KEY = 'chordlab.ai.v1';
 
-        // A-Shape
-        const aStringIdx = ALL_NOTES.indexOf('A');
-        const aShapeRootFret = (ALL_NOTES.indexOf(n) - aStringIdx + 12) % 12;
-        const aFrets = createVoicingFromShape(shapeTemplate.aShape, aShapeRootFret);
-        const isABarre = aFrets.some(fr => fr > 0) && aShapeRootFret > 0;
-        voicings.push({
-            name: !isABarre ? "Open A-Style" : `Root on A (Fret ${aShapeRootFret || 12})`,
-            frets: aFrets,
-            baseFret: Math.min(...aFrets.filter(fr => fr !== -1)) || 1
-        });
+const DEFAULT_AI_SETTINGS: AiSettings = {
+  providerId: process.env.API_KEY ? 'gemini' : 'mock',
+  geminiModel: 'gemini-2.5-flash',
+  localUrl: 'http://localhost:11434/v1',
+  localModel: 'llama3.1',
+};
 
-        // --- INVERSIONS ---
-        // 1. First Inversion (Bass = 3rd)
-        if (q === '' || q === 'm') {
-            const isMinor = q === 'm';
-            // Find 3rd note fret on E string
-            const thirdNoteName = thirdNote; 
-            const thirdE_Fret = (ALL_NOTES.indexOf(thirdNoteName) - eStringIdx + 12) % 12;
-            const shapeNameE = isMinor ? 'Min_3_E' : 'Maj_3_E';
-            const invFretsE = createInversionVoicing(INVERSION_SHAPES[shapeNameE], thirdE_Fret);
-            if (invFretsE) {
-                voicings.push({
-                    name: `/${thirdNoteName} (Bass on E)`,
-                    frets: invFretsE,
-                    baseFret: Math.min(...invFretsE.filter(fr => fr !== -1)) || 1
-                });
-            }
+const loadAiSettings = (): AiSettings => ({ ...DEFAULT_AI_SETTINGS, ...readStorage<Partial<AiSettings>>(AI_SETTINGS_KEY, {}) });
+const saveAiSettings = (settings: AiSettings) => writeStorage(AI_SETTINGS_KEY, settings);
 
-            // Find 3rd note fret on A string
-            const thirdA_Fret = (ALL_NOTES.indexOf(thirdNoteName) - aStringIdx + 12) % 12;
-            const shapeNameA = isMinor ? 'Min_3_A' : 'Maj_3_A';
-            const invFretsA = createInversionVoicing(INVERSION_SHAPES[shapeNameA], thirdA_Fret);
-            if (invFretsA) {
-                voicings.push({
-                    name: `/${thirdNoteName} (Bass on A)`,
-                    frets: invFretsA,
-                    baseFret: Math.min(...invFretsA.filter(fr => fr !== -1)) || 1
-                });
-            }
-        }
-        
-        // 2. Second Inversion (Bass = 5th)
-        if (q === '') {
-             const fifthNoteName = fifthNote;
-             const fifthE_Fret = (ALL_NOTES.indexOf(fifthNoteName) - eStringIdx + 12) % 12;
-             const invFrets5 = createInversionVoicing(INVERSION_SHAPES['Maj_5_E'], fifthE_Fret);
-             if (invFrets5) {
-                voicings.push({
-                    name: `/${fifthNoteName} (Bass on E)`,
-                    frets: invFrets5,
-                    baseFret: Math.min(...invFrets5.filter(fr => fr !== -1)) || 1
-                });
-             }
-        }
+// JSON Schema shared by both LLM backends
+const AI_ANALYSIS_SCHEMA = {
+  type: 'object',
+  properties: {
+    chords: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          role: { type: 'string', enum: HARMONIC_ROLES },
+          comment: { type: 'string' },
+        },
+        required: ['name', 'role', 'comment'],
+      },
+    },
+    transitions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          from: { type: 'integer' },
+          to: { type: 'integer' },
+          comment: { type: 'string' },
+        },
+        required: ['from', 'to', 'comment'],
+      },
+    },
+    summary: { type: 'string' },
+  },
+  required: ['chords', 'transitions', 'summary'],
+};
 
-        // Calculate notes for playback
-        const cNotes = [n, thirdNote, fifthNote]; 
-        
-        return {
-            id: `${n}${q}-${i}-${customId}`,
-            root: n,
-            quality: q,
-            name: `${n}${q}`,
-            roman: r,
-            function: f,
-            notes: cNotes,
-            voicings: voicings,
-            activeVoicingIdx: 0,
-            scaleDegree: i + 1,
-            isDiatonic: true,
-            category: cat
-        };
-    };
+const AI_RERANK_SCHEMA = {
+  type: 'object',
+  properties: {
+    ranking: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          reason: { type: 'string' },
+        },
+        required: ['name', 'reason'],
+      },
+    },
+  },
+  required: ['ranking'],
+};
 
-    allChords.push(buildChord(quality, note, roman, func, 'Team'));
+const buildAnalysisPrompt = ({ root, scaleType, style, progression, analysis }: AnalysisRequest): string => `Analyze this chord progression in the key of ${root} ${scaleType} for an intermediate guitar student.
+Progression: ${progression.map((c, i) => `${i}: ${c.name} (${c.roman})`).join(', ')}.
+Musical Style: ${style}.
+Rule-based findings: ${analysis.annotations.map(n => n.detail).join(' ') || 'none'}
+Return one entry per chord, in order, with its harmonic role (${HARMONIC_ROLES.join(', ')}) and a short comment;
+one entry per adjacent pair (from = index, to = index + 1) commenting on the functional harmony and voice leading;
+and a brief, concise summary.`;
 
-    // 2. VARIATIONS (Spices)
-    // Only generate variations for major/minor chords to keep it musical
-    
-    // Sus4 & Sus2
-    if (quality === '' || quality === '7') { // Major Triad or Dom7
-        allChords.push(buildChord('sus4', note, roman + 'sus4', 'Spice', 'Variation', 'sus4'));
-        allChords.push(buildChord('sus2', note, roman + 'sus2', 'Spice', 'Variation', 'sus2'));
-        if (style === 'Pop') {
-            allChords.push(buildChord('add9', note, roman + 'add9', 'Spice', 'Variation', 'add9'));
-        }
-        if (quality === '') { // Plain Major
-             allChords.push(buildChord('6', note, roman + '6', 'Spice', 'Variation', '6'));
-        }
-    }
-    
-    if (quality === '7') { // Dom7 specific
-        allChords.push(buildChord('7sus4', note, roman + '7sus', 'Tension', 'Variation', '7sus4'));
-    }
-  });
+const buildRerankPrompt = ({ root, scaleType, style, progression, candidates }: RerankRequest): string => `A guitar student in ${root} ${scaleType} (${style} style) has played: ${progression.map(c => `${c.name} (${c.roman})`).join(', ') || 'nothing yet'}.
+Rank these candidate next chords from best to worst and give a one-sentence reason for each:
+${candidates.map(c => `${c.chord.name} (${c.chord.roman}): ${c.reason}`).join('\n')}
+Only use the candidate names given.`;
 
-  // 3. WILDCARDS (Happy Accidents / Borrowed Chords)
-  const addWildcard = (degreeOffset: number, quality: string, roman: string, label: string) => {
-     const wIdx = (rootIdx + degreeOffset) % 12;
-     const wNote = ALL_NOTES[wIdx];
-     
-     // Build Voicing for Wildcard
-     const shapeKey = quality;
-     const template = CHORD_SHAPES[shapeKey] || CHORD_SHAPES[''];
-     const eStringIdx = ALL_NOTES.indexOf('E');
-     const wRootFret = (wIdx - eStringIdx + 12) % 12;
-     const wFrets = createVoicingFromShape(template.eShape, wRootFret);
-
-     allChords.push({
-        id: `wild-${wNote}${quality}`,
-        root: wNote,
-        quality: quality,
-        name: `${wNote}${quality}`,
-        roman: roman,
-        function: 'Stranger',
-        notes: [wNote, '?', '?'],
-        voicings: [{ name: label, frets: wFrets, baseFret: Math.min(...wFrets.filter(f => f !== -1)) }],
-        activeVoicingIdx: 0,
-        scaleDegree: 0,
-        isDiatonic: false,
-        category: 'Wildcard'
-     });
-  };
-
-  if (scaleType === 'Major' || scaleType === 'Mixolydian') {
-      addWildcard(10, '', 'bVII', 'Mixolydian Borrow'); // bVII Major
-      addWildcard(3, '', 'bIII', 'Chromatic Mediant'); // bIII Major
-      addWildcard(5, 'm', 'iv', 'Minor Plagal'); // iv Minor
-      addWildcard(8, '', 'bVI', 'Epic Lift'); // bVI Major
-  } else { // Minor Contexts
-      addWildcard(7, '', 'V', 'Major V (Harmonic)'); // V Major
-      addWildcard(5, '', 'IV', 'Dorian IV'); // IV Major
-      addWildcard(1, '', 'bII', 'Neapolitan'); // bII Major
+const parseJsonReply = (raw: unknown): unknown => {
+  if (typeof raw !== 'string') return raw;
+  try {
+    return JSON.parse(raw.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    throw new Error('The reply is not valid JSON.');
   }
+};
 
-  return allChords;
+// Checks a model's reply against the schema; anything malformed throws with a readable reason
+const parseAiAnalysis = (raw: unknown, chordCount: number): AiAnalysis => {
+  const data = parseJsonReply(raw);
+  if (!data || typeof data !== 'object') throw new Error('The reply is not a JSON object.');
+  const { chords, transitions, summary } = data as Record<string, unknown>;
+  if (!Array.isArray(chords) || !Array.isArray(transitions) || typeof summary !== 'string') {
+    throw new Error('The reply is missing chords, transitions or summary.');
+  }
+  if (chords.length !== chordCount) throw new Error(`Expected ${chordCount} chords in the reply, got ${chords.length}.`);
+  return {
+    chords: chords.map((c, i) => {
+      if (typeof c?.name !== 'string' || typeof c?.comment !== 'string') throw new Error(`Chord ${i + 1} in the reply is malformed.`);
+      const role = String(c.role).toLowerCase() as HarmonicRole;
+      return { name: c.name, role: HARMONIC_ROLES.includes(role) ? role : 'passing', comment: c.comment };
+    }),
+    transitions: transitions
+      .filter(t => Number.isInteger(t?.from) && Number.isInteger(t?.to) && typeof t?.comment === 'string')
+      .filter(t => t.from >= 0 && t.to < chordCount)
+      .map(t => ({ from: t.from, to: t.to, comment: t.comment })),
+    summary,
+  };
+};
+
+// Reorders the candidates to follow the model's ranking; unknown names are dropped and
+// anything the model left out keeps its local order at the end
+const parseRerank = (raw: unknown, candidates: ChordSuggestion[]): ChordSuggestion[] => {
+  const ranking = (parseJsonReply(raw) as { ranking?: unknown })?.ranking;
+  if (!Array.isArray(ranking)) throw new Error('The reply has no ranking.');
+  const ranked = ranking.flatMap(r => {
+    const match = candidates.find(c => c.chord.name === r?.name);
+    return match && typeof r.reason === 'string' ? [{ ...match, reason: r.reason }] : [];
+  }).filter((c, i, all) => all.findIndex(o => o.chord.id === c.chord.id) === i);
+  if (ranked.length === 0) throw new Error('The reply ranked none of the candidates.');
+  return [...ranked, ...candidates.filter(c => !ranked.some(r => r.chord.id === c.chord.id))];
+};
+
+const createGeminiProvider = (apiKey: string, model: string): AnalysisProvider => {
+  const generate = async (prompt: string, schema: object): Promise<string> => {
+    if (!apiKey) throw new Error('No Gemini API key is configured (set API_KEY).');
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: { responseMimeType: 'application/json', responseJsonSchema: schema },
+    });
+    return response.text ?? '';
+  };
+  return {
+    id: 'gemini',
+    name: 'Gemini',
+    analyze: async (request) => parseAiAnalysis(await generate(buildAnalysisPrompt(request), AI_ANALYSIS_SCHEMA), request.progression.length),
+    rerank: async (request) => parseRerank(await generate(buildRerankPrompt(request), AI_RERANK_SCHEMA), request.candidates),
+  };
+};
+
+// Any server speaking the OpenAI chat completions API with structured outputs
+const createLocalProvider = (baseUrl: string, model: string): AnalysisProvider => {
+  const generate = async (prompt: string, schemaName: string, schema: object): Promise<string> => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: 'You are a music theory teacher. Reply with JSON only.' },
+          { role: 'user', content: prompt },
+        ],
+        response_format: { type: 'json_schema', json_schema: { name: schemaName, schema } },
+        temperature: 0.2,
+      }),
+    });
+    if (!response.ok) throw new Error(`${baseUrl} answered ${response.status} ${response.statusText}.`);
+    const body = await response.json();
+    return body?.choices?.[0]?.message?.content ?? '';
+  };
+  return {
+    id: 'local',
+    name: 'Local',
+    analyze: async (request) => parseAiAnalysis(await generate(buildAnalysisPrompt(request), 'progression_analysis', AI_ANALYSIS_SCHEMA), request.progression.length),
+    rerank: async (request) => parseRerank(await generate(buildRerankPrompt(request), 'next_chord_ranking', AI_RERANK_SCHEMA), request.candidates),
+  };
+};
+
+// Deterministic analysis from the rule-based engine, for offline use and tests
+const createMockProvider = (): AnalysisProvider => ({
+  id: 'mock',
+  name: 'Offline',
+  analyze: async ({ root, scaleType, progression, analysis }) => {
+    const roleOf = (chord: Chord, i: number): HarmonicRole => {
+      if (analysis.transitions[i]?.annotations.some(n => n.kind === 'secondary')) return 'secondary';
+      if (analysis.annotations.some(n => n.kind === 'interchange' && n.to === i)) return 'borrowed';
+      if ([1, 3, 6].includes(chord.scaleDegree)) return 'tonic';
+      if ([2, 4].includes(chord.scaleDegree)) return 'predominant';
+      if ([5, 7].includes(chord.scaleDegree)) return 'dominant';
+      return 'passing';
+    };
+    const closing = analysis.annotations.find(n => n.kind === 'cadence');
+    return {
+      chords: progression.map((chord, i) => {
+        const role = roleOf(chord, i);
+        return { name: chord.name, role, comment: `${chord.roman}: ${role} in ${root} ${scaleType}.` };
+      }),
+      transitions: analysis.transitions.map((t, i) => ({
+        from: i,
+        to: i + 1,
+        comment: t.annotations.filter(n => n.kind !== 'common-tones').map(n => n.detail).join(' ') || 'Smooth step with no strong pull.',
+      })),
+      summary: `${progression.length} chords in ${root} ${scaleType}. ${closing ? closing.detail : 'No cadence, so the progression floats.'}`,
+    };
+  },
+});
+
+const createAnalysisProvider = (settings: AiSettings): AnalysisProvider => {
+  switch (settings.providerId) {
+    case 'gemini': return createGeminiProvider(process.env.API_KEY || '', settings.geminiModel);
+    case 'local': return createLocalProvider(settings.localUrl, settings.localModel);
+    default: return createMockProvider();
+  }
 };
 
 // --- COMPONENTS ---
@@ -555,7 +3429,62 @@ const GuideModal = ({ onClose }: { onClose: () => void }) => (
   </div>
 );
 
-const Fretboard = ({ chord, showScale, scaleNotes }: { chord: Chord | null, showScale: boolean, scaleNotes: string[] }) => {
+// Interval colours shared by the fretboard and the full-neck view, keyed by the degree number without accidentals
+const INTERVAL_COLORS: Record<string, string> = {
+  'R': 'bg-cyan-500 text-white',
+  '3': 'bg-amber-400 text-slate-900',
+  '5': 'bg-emerald-500 text-white',
+  '7': 'bg-fuchsia-500 text-white',
+  '9': 'bg-sky-400 text-slate-900',
+  '11': 'bg-orange-400 text-slate-900',
+  '13': 'bg-rose-400 text-slate-900',
+};
+
+const getIntervalColor = (label: string) => {
+  const degree = label.replace(/[b#]/g, '');
+  const folded = ({ '2': '9', '4': '11', '6': '13' } as Record<string, string>)[degree] ?? degree;
+  return INTERVAL_COLORS[folded] || 'bg-white text-slate-900';
+};
+
+// Key-relative scale degree of a pitch class; tones outside the scale read as b/# of a neighbour
+const getScaleDegreeLabel = (pc: number, scaleNotes: string[]): string => {
+  const scalePcs = scaleNotes.map(getPitchClass);
+  const idx = scalePcs.indexOf(pc);
+  if (idx !== -1) return `${idx + 1}`;
+  const above = scalePcs.indexOf((pc + 1) % 12);
+  if (above !== -1) return `b${above + 1}`;
+  return `#${scalePcs.indexOf((pc + 11) % 12) + 1}`;
+};
+
+const DEGREE_COLORS = [
+  'bg-cyan-500 text-white',
+  'bg-sky-300 text-slate-900',
+  'bg-amber-400 text-slate-900',
+  'bg-lime-400 text-slate-900',
+  'bg-emerald-500 text-white',
+  'bg-pink-400 text-slate-900',
+  'bg-fuchsia-500 text-white',
+];
+
+const FINGER_COLORS = ['bg-slate-200 text-slate-900', 'bg-sky-500 text-white', 'bg-emerald-500 text-white', 'bg-amber-400 text-slate-900', 'bg-rose-500 text-white'];
+
+type FretboardLabelMode = 'notes' | 'intervals' | 'degrees' | 'fingers';
+
+const FRETBOARD_LABEL_MODES: { id: FretboardLabelMode, label: string }[] = [
+  { id: 'notes', label: 'Notes' },
+  { id: 'intervals', label: 'Intervals' },
+  { id: 'degrees', label: 'Degrees' },
+  { id: 'fingers', label: 'Fingers' },
+];
+
+const Fretboard = ({ chord, showScale, scaleNotes, tuning, capo, labelMode }: {
+  chord: Chord | null,
+  showScale: boolean,
+  scaleNotes: string[],
+  tuning: TuningString[], // Sounding tuning, capo included
+  capo: number,
+  labelMode: FretboardLabelMode
+}) => {
   if (!chord) return <div className="h-48 w-full bg-slate-900/50 rounded-xl flex items-center justify-center text-slate-500">Select a chord to view voicing</div>;
   
   const voicing = chord.voicings[chord.activeVoicingIdx];
@@ -564,6 +3493,10 @@ const Fretboard = ({ chord, showScale, scaleNotes }: { chord: Chord | null, show
   const fretsToShow = 5;
   const startFret = voicing.baseFret || 1;
   const endFret = startFret + fretsToShow;
+  const stringX = (s: number) => 10 + s * (80 / (tuning.length - 1));
+  const intervals = getChordIntervals(chord.root, chord.quality);
+  const fingering = assignFingering(voicing.frets);
+  const barre = labelMode === 'fingers' ? fingering.barre : undefined;
 
   const renderFrets = () => {
     const lines = [];
@@ -571,7 +3504,7 @@ const Fretboard = ({ chord, showScale, scaleNotes }: { chord: Chord | null, show
       lines.push(
         <div key={i} className="absolute w-full h-px bg-slate-600" style={{ top: `${(i / fretsToShow) * 100}%` }}>
            <span className="absolute -left-6 -top-2 text-xs text-slate-500 font-mono">
-             {startFret + i > 0 ? startFret + i : 'Nut'}
+             {startFret + i > 0 ? startFret + i : capo > 0 ? 'Capo' : 'Nut'}
            </span>
         </div>
       );
@@ -579,45 +3512,77 @@ const Fretboard = ({ chord, showScale, scaleNotes }: { chord: Chord | null, show
     return lines;
   };
   const renderStrings = () => {
-    return [0, 1, 2, 3, 4, 5].map(s => (
-      <div key={s} className="absolute h-full w-px bg-slate-500" style={{ left: `${10 + (s * 16)}%` }}></div>
+    return tuning.map((_, s) => (
+      <div key={s} className="absolute h-full w-px bg-slate-500" style={{ left: `${stringX(s)}%` }}></div>
     ));
   };
   const renderNotes = () => {
     return voicing.frets.map((fret, stringIdx) => {
       if (fret === -1) return (
-         <div key={stringIdx} className="absolute text-slate-600 text-xs font-bold" style={{ top: '-15px', left: `${9 + (stringIdx * 16)}%` }}>X</div>
+         <div key={stringIdx} className="absolute text-slate-600 text-xs font-bold" style={{ top: '-15px', left: `${stringX(stringIdx) - 1}%` }}>X</div>
       );
       const relativeFret = fret - startFret;
       const isVisible = relativeFret >= 0 && relativeFret < fretsToShow;
       if (!isVisible && fret !== 0) return null; 
       const topPos = fret === 0 ? -10 : ((relativeFret + 0.5) / fretsToShow) * 100;
-      const noteInfo = getNoteAtFret(stringIdx, fret);
-      const isRoot = noteInfo?.note === chord.root;
+      // Strings under the barre are drawn by the bar itself
+      if (barre && fret === barre.fret && stringIdx >= barre.fromString && stringIdx <= barre.toString) return null;
+      const noteInfo = getNoteAtFret(stringIdx, fret, tuning);
+      if (!noteInfo) return null;
+      const pc = getPitchClass(noteInfo.note);
+      const isRoot = isSameNote(noteInfo.note, chord.root);
+      let label = spellPitchClass(pc, [...chord.notes, ...scaleNotes]);
+      let colors = isRoot ? 'bg-cyan-500 text-white' : 'bg-white text-slate-900';
+      if (labelMode === 'intervals') {
+        label = intervals.get(pc) ?? '?';
+        colors = getIntervalColor(label);
+      } else if (labelMode === 'degrees') {
+        label = getScaleDegreeLabel(pc, scaleNotes);
+        colors = DEGREE_COLORS[Number(label.replace(/[b#]/g, '')) - 1];
+      } else if (labelMode === 'fingers') {
+        label = fingering.fingers[stringIdx] ? `${fingering.fingers[stringIdx]}` : 'O';
+        colors = FINGER_COLORS[fingering.fingers[stringIdx]];
+      }
       return (
         <div 
           key={stringIdx}
           className={`absolute w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-bold shadow-sm z-10
-            ${isRoot ? 'bg-cyan-500 text-white' : 'bg-white text-slate-900'}
+            ${colors}
           `}
-          style={{ top: fret === 0 ? '-12px' : `calc(${topPos}% - 12px)`, left: `calc(${10 + (stringIdx * 16)}% - 12px)` }}
+          style={{ top: fret === 0 ? '-12px' : `calc(${topPos}% - 12px)`, left: `calc(${stringX(stringIdx)}% - 12px)` }}
         >
-          {noteInfo?.note}
+          {label}
         </div>
       );
     });
   };
+  const renderBarre = () => {
+    if (!barre) return null;
+    const topPos = ((barre.fret - startFret + 0.5) / fretsToShow) * 100;
+    return (
+      <div
+        className={`absolute h-6 rounded-full flex items-center justify-center text-[10px] font-bold shadow-sm z-10 ${FINGER_COLORS[1]}`}
+        style={{
+          top: `calc(${topPos}% - 12px)`,
+          left: `calc(${stringX(barre.fromString)}% - 12px)`,
+          width: `calc(${stringX(barre.toString) - stringX(barre.fromString)}% + 24px)`
+        }}
+      >
+        1
+      </div>
+    );
+  };
   const renderScaleOverlay = () => {
     if (!showScale) return null;
     const dots = [];
-    for (let s = 0; s < 6; s++) {
+    for (let s = 0; s < tuning.length; s++) {
       for (let f = startFret; f < endFret; f++) {
-         const noteInfo = getNoteAtFret(s, f);
-         if (noteInfo && scaleNotes.includes(noteInfo.note)) {
+         const noteInfo = getNoteAtFret(s, f, tuning);
+         if (noteInfo && scaleNotes.some(n => isSameNote(n, noteInfo.note))) {
             if (voicing.frets[s] !== f) {
                const relativeFret = f - startFret;
                const topPos = ((relativeFret + 0.5) / fretsToShow) * 100;
-               dots.push(<div key={`scale-${s}-${f}`} className="absolute w-3 h-3 rounded-full bg-slate-700/50 pointer-events-none" style={{ top: `calc(${topPos}% - 6px)`, left: `calc(${10 + (s * 16)}% - 6px)` }}/>);
+               dots.push(<div key={`scale-${s}-${f}`} className="absolute w-3 h-3 rounded-full bg-slate-700/50 pointer-events-none" style={{ top: `calc(${topPos}% - 6px)`, left: `calc(${stringX(s)}% - 6px)` }}/>);
             }
          }
       }
@@ -627,7 +3592,403 @@ const Fretboard = ({ chord, showScale, scaleNotes }: { chord: Chord | null, show
   return (
     <div className="relative w-full max-w-[220px] h-64 bg-slate-800 rounded-lg border border-slate-700 mx-auto mt-4 pl-10 pr-4 py-4 overflow-hidden shadow-inner">
       <div className="relative w-full h-full">
-        {renderFrets()}{renderStrings()}{renderScaleOverlay()}{renderNotes()}
+        {renderFrets()}{renderStrings()}{renderScaleOverlay()}{renderBarre()}{renderNotes()}
+      </div>
+    </div>
+  );
+};
+
+const CAGED_SHADES: Record<CagedShape, string> = {
+  'C': 'bg-rose-500/10 border-rose-500/30',
+  'A': 'bg-amber-500/10 border-amber-500/30',
+  'G': 'bg-emerald-500/10 border-emerald-500/30',
+  'E': 'bg-sky-500/10 border-sky-500/30',
+  'D': 'bg-violet-500/10 border-violet-500/30',
+};
+
+const NECK_MARKERS = [3, 5, 7, 9, 12, 15, 17, 19, 21, 24];
+
+// Every chord tone from the nut to the last fret, with the CAGED regions shaded
+// and an outline around each of the chord's voicings (click one to switch to it)
+const NeckView = ({ chord, tuning, maxFret, showScale, scaleNotes, onSelectVoicing }: {
+  chord: Chord,
+  tuning: TuningString[],
+  maxFret: number,
+  showScale: boolean,
+  scaleNotes: string[],
+  onSelectVoicing?: (idx: number) => void
+}) => {
+  const [fretWidth, setFretWidth] = useState(36);
+  const rowHeight = 22;
+  const intervals = getChordIntervals(chord.root, chord.quality);
+  const regions = getCagedRegions(getPitchClass(chord.root), tuning, maxFret);
+  const active = chord.voicings[chord.activeVoicingIdx];
+  const rowOf = (s: number) => (tuning.length - 1 - s) * rowHeight; // High string on top, like tab
+  const height = tuning.length * rowHeight;
+
+  const renderRegions = () => regions.map(r => (
+    <div
+      key={`${r.shape}-${r.start}`}
+      className={`absolute top-0 border-x ${CAGED_SHADES[r.shape]}`}
+      style={{ left: r.start * fretWidth, width: (r.end - r.start + 1) * fretWidth, height }}
+    >
+      <span className="absolute -top-4 left-1 text-[10px] font-bold text-slate-400">{r.shape}</span>
+    </div>
+  ));
+
+  const renderOutlines = () => chord.voicings.map((v, idx) => {
+    const sounding = v.frets.map((f, s) => f === -1 ? -1 : s).filter(s => s !== -1);
+    if (sounding.length === 0) return null;
+    const played = sounding.map(s => v.frets[s]);
+    const low = Math.min(...played);
+    const high = Math.max(...played);
+    const isActive = idx === chord.activeVoicingIdx;
+    return (
+      <div
+        key={idx}
+        onClick={() => onSelectVoicing?.(idx)}
+        title={v.name}
+        className={`absolute rounded-md border ${isActive ? 'border-2 border-white/80 z-[5]' : 'border-dashed border-slate-500/50 hover:border-cyan-400'} ${onSelectVoicing ? 'cursor-pointer' : ''}`}
+        style={{
+          left: low * fretWidth + 2,
+          width: (high - low + 1) * fretWidth - 4,
+          top: rowOf(sounding[sounding.length - 1]) + 1,
+          height: rowOf(sounding[0]) - rowOf(sounding[sounding.length - 1]) + rowHeight - 2
+        }}
+      />
+    );
+  });
+
+  const renderDots = () => {
+    const dots = [];
+    for (let s = 0; s < tuning.length; s++) {
+      for (let f = 0; f <= maxFret; f++) {
+        if (f > 0 && f < (tuning[s].firstFret ?? 0)) continue;
+        const pc = getPitchAtFret(s, f, tuning)! % 12;
+        const label = intervals.get(pc);
+        const isScaleTone = showScale && scaleNotes.some(n => getPitchClass(n) === pc);
+        if (!label && !isScaleTone) continue;
+        const isPlayed = active?.frets[s] === f;
+        const size = label ? 18 : 8;
+        dots.push(
+          <div
+            key={`${s}-${f}`}
+            className={`absolute rounded-full flex items-center justify-center text-[9px] font-bold pointer-events-none z-10
+              ${label ? getIntervalColor(label) : 'bg-slate-600/60'} ${isPlayed ? 'ring-2 ring-white' : label ? 'opacity-70' : ''}`}
+            style={{ left: f * fretWidth + fretWidth / 2 - size / 2, top: rowOf(s) + rowHeight / 2 - size / 2, width: size, height: size }}
+          >
+            {label}
+          </div>
+        );
+      }
+    }
+    return dots;
+  };
+
+  return (
+    <div className="w-full mt-4">
+      <div className="flex items-center justify-between mb-2 text-xs text-slate-400">
+        <div className="flex flex-wrap gap-1">
+          {Array.from(new Set(intervals.values())).map(label => (
+            <span key={label} className={`px-1.5 rounded font-bold ${getIntervalColor(label)}`}>{label}</span>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setFretWidth(Math.max(20, fretWidth - 8))} className="p-1 rounded border border-slate-700 hover:text-white" title="Zoom out"><ZoomOut size={12}/></button>
+          <button onClick={() => setFretWidth(Math.min(72, fretWidth + 8))} className="p-1 rounded border border-slate-700 hover:text-white" title="Zoom in"><ZoomIn size={12}/></button>
+        </div>
+      </div>
+      <div className="overflow-x-auto pb-2 pt-5">
+        <div className="relative" style={{ width: (maxFret + 1) * fretWidth, height: height + 18 }}>
+          <div className="absolute inset-x-0 top-0 bg-slate-800 rounded" style={{ height }} />
+          {renderRegions()}
+          {tuning.map((_, s) => (
+            <div key={s} className="absolute h-px bg-slate-500" style={{ left: fretWidth, right: 0, top: rowOf(s) + rowHeight / 2 }} />
+          ))}
+          {Array.from({ length: maxFret + 1 }, (_, f) => (
+            <div key={f} className={`absolute top-0 ${f === 0 ? 'w-1 bg-slate-300' : 'w-px bg-slate-600'}`} style={{ left: (f + 1) * fretWidth, height }} />
+          ))}
+          {renderOutlines()}
+          {renderDots()}
+          {Array.from({ length: maxFret + 1 }, (_, f) => (
+            <span
+              key={f}
+              className={`absolute text-[10px] font-mono text-center ${NECK_MARKERS.includes(f) ? 'text-slate-300 font-bold' : 'text-slate-600'}`}
+              style={{ left: f * fretWidth, width: fretWidth, top: height + 2 }}
+            >
+              {f}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const LibraryModal = ({ sessions, currentId, onSaveAs, onSave, onLoad, onUpdate, onDuplicate, onDelete, onClose }: {
+  sessions: SavedSession[],
+  currentId: string | null,
+  onSaveAs: (name: string, tags: string[]) => void,
+  onSave: () => void,
+  onLoad: (id: string) => void,
+  onUpdate: (id: string, patch: Partial<Pick<SavedSession, 'name' | 'tags'>>) => void,
+  onDuplicate: (id: string) => void,
+  onDelete: (id: string) => void,
+  onClose: () => void
+}) => {
+  const [query, setQuery] = useState('');
+  const [newName, setNewName] = useState('');
+  const [newTags, setNewTags] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editTags, setEditTags] = useState('');
+  const current = sessions.find(s => s.id === currentId);
+  const results = searchSessions(sessions, query).sort((a, b) => b.updatedAt - a.updatedAt);
+  const recent = getRecentSessions(sessions);
+  const inputClass = "bg-slate-800 text-white py-1.5 px-3 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+  const startEdit = (session: SavedSession) => {
+    setEditingId(session.id);
+    setEditName(session.name);
+    setEditTags(session.tags.join(', '));
+  };
+  const commitEdit = () => {
+    if (editingId && editName.trim()) onUpdate(editingId, { name: editName.trim(), tags: parseTags(editTags) });
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl max-w-2xl w-full shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-800 bg-gradient-to-r from-cyan-900/20 to-blue-900/20 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+            <FolderOpen size={24} className="text-cyan-400" /> Library
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6 text-sm">
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+              <input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="Session name" className={`${inputClass} flex-1`} />
+              <input value={newTags} onChange={(e) => setNewTags(e.target.value)} placeholder="Tags, comma separated" className={`${inputClass} flex-1`} />
+              <button
+                onClick={() => { onSaveAs(newName.trim() || 'Untitled', parseTags(newTags)); setNewName(''); setNewTags(''); }}
+                className="flex items-center gap-1 px-3 py-1.5 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded-md transition-colors"
+              >
+                <Save size={14} /> Save As
+              </button>
+            </div>
+            {current && (
+              <button onClick={onSave} className="text-xs text-cyan-400 hover:text-cyan-300">
+                Save changes to "{current.name}"
+              </button>
+            )}
+          </div>
+
+          {recent.length > 0 && (
+            <div>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Recent</h3>
+              <div className="flex flex-wrap gap-2">
+                {recent.map(session => (
+                  <button
+                    key={session.id}
+                    onClick={() => onLoad(session.id)}
+                    className={`px-3 py-1 rounded-full border text-xs transition-colors ${session.id === currentId ? 'bg-cyan-900/50 border-cyan-500/50 text-cyan-300' : 'border-slate-700 text-slate-300 hover:border-slate-500'}`}
+                  >
+                    {session.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search by name, key, tag or chord" className={`${inputClass} w-full`} />
+            {results.length === 0 && (
+              <p className="text-slate-500 text-center py-6">{sessions.length === 0 ? 'Nothing saved yet.' : 'No sessions match.'}</p>
+            )}
+            {results.map(session => (
+              <div key={session.id} className={`p-3 rounded-xl border ${session.id === currentId ? 'border-cyan-500/50 bg-cyan-900/10' : 'border-slate-800 bg-slate-950/50'}`}>
+                {editingId === session.id ? (
+                  <div className="flex flex-wrap gap-2">
+                    <input value={editName} onChange={(e) => setEditName(e.target.value)} className={`${inputClass} flex-1`} autoFocus />
+                    <input value={editTags} onChange={(e) => setEditTags(e.target.value)} className={`${inputClass} flex-1`} placeholder="Tags" />
+                    <button onClick={commitEdit} className="px-3 py-1.5 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded-md">Done</button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="font-bold text-white truncate">{session.name}</div>
+                      <div className="text-xs text-slate-500 truncate">
+                        {session.root} {session.scaleType} · {session.progression.map(c => c.name).join(' - ') || 'empty'}
+                      </div>
+                      {session.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {session.tags.map(tag => (
+                            <button key={tag} onClick={() => setQuery(tag)} className="flex items-center gap-1 px-1.5 rounded bg-slate-800 text-[10px] text-slate-400 hover:text-white">
+                              <Tag size={10} /> {tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 text-xs shrink-0">
+                      <button onClick={() => onLoad(session.id)} className="px-2 py-1 rounded bg-cyan-600 hover:bg-cyan-500 text-white font-bold">Load</button>
+                      <button onClick={() => startEdit(session)} className="text-slate-400 hover:text-white">Rename</button>
+                      <button onClick={() => onDuplicate(session.id)} className="text-slate-400 hover:text-white">Duplicate</button>
+                      <button onClick={() => onDelete(session.id)} className="text-slate-500 hover:text-red-400">Delete</button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Transpose (new root) and/or re-mode (new mode) with a preview of what each chord becomes
+const ReharmonizeModal = ({ progression, root, scaleType, style, tuning, instrument, onApply, onClose }: {
+  progression: Chord[],
+  root: string,
+  scaleType: string,
+  style: string,
+  tuning: TuningString[],
+  instrument: Instrument,
+  onApply: (root: string, scaleType: string, progression: Chord[]) => void,
+  onClose: () => void
+}) => {
+  const [targetRoot, setTargetRoot] = useState(root);
+  const [targetMode, setTargetMode] = useState(scaleType);
+  const changes = useMemo(
+    () => reharmonizeProgression(progression, { root, scaleType }, { root: targetRoot, scaleType: targetMode }, style, tuning, instrument),
+    [progression, root, scaleType, targetRoot, targetMode, style, tuning, instrument]
+  );
+  const changedCount = changes.filter(c => c.qualityChanged).length;
+  const selectClass = "bg-slate-800 text-white text-sm py-1.5 px-3 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl max-w-xl w-full shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-800 bg-gradient-to-r from-cyan-900/20 to-blue-900/20 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+            <ArrowLeftRight size={24} className="text-cyan-400" /> Transpose & Re-mode
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4 text-sm">
+          <div className="flex flex-wrap items-center gap-2 text-slate-400">
+            <span>{root} {scaleType}</span>
+            <ArrowRight size={14} />
+            <select value={targetRoot} onChange={(e) => setTargetRoot(e.target.value)} className={selectClass}>
+              {KEY_ROOTS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+            <select value={targetMode} onChange={(e) => setTargetMode(e.target.value)} className={selectClass}>
+              {Object.keys(SCALE_PATTERNS).map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+          </div>
+
+          <div className="rounded-xl border border-slate-800 divide-y divide-slate-800">
+            {changes.map(({ before, after, qualityChanged }, i) => (
+              <div key={i} className={`flex items-center gap-3 px-3 py-2 ${qualityChanged ? 'bg-amber-900/20' : ''}`}>
+                <span className="w-6 text-xs text-slate-600 font-mono">{i + 1}</span>
+                <span className="w-28 text-slate-400"><span className="font-mono text-xs">{before.roman}</span> · {before.name}</span>
+                <ArrowRight size={12} className="text-slate-600" />
+                <span className={`flex-1 ${qualityChanged ? 'text-amber-300 font-bold' : 'text-white'}`}>
+                  <span className="font-mono text-xs">{after.roman}</span> · {after.name}
+                </span>
+                {qualityChanged && <span className="text-[10px] uppercase tracking-wider text-amber-400">Quality changed</span>}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">
+            {changedCount === 0 ? 'Every chord keeps its quality.' : `${changedCount} of ${changes.length} chords change quality.`}
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <button onClick={onClose} className="px-4 py-1.5 rounded-full border border-slate-700 text-slate-300 hover:bg-slate-800">Cancel</button>
+            <button
+              onClick={() => onApply(targetRoot, targetMode, changes.map(c => c.after))}
+              className="px-4 py-1.5 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded-full transition-colors"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const VoicingFinder = ({ chord, options, stringCount, onChange, onSearch }: {
+  chord: Chord,
+  options: VoicingSearchOptions,
+  stringCount: number,
+  onChange: (options: VoicingSearchOptions) => void,
+  onSearch: () => void
+}) => {
+  const update = (patch: Partial<VoicingSearchOptions>) => onChange({ ...options, ...patch });
+  const toggleString = (s: number) => update({
+    strings: options.strings.includes(s) ? options.strings.filter(x => x !== s) : [...options.strings, s].sort((a, b) => a - b)
+  });
+  const selectClass = "bg-slate-800 text-white py-1 px-2 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500";
+  return (
+    <div className="w-full mt-4 p-3 rounded-xl border border-slate-800 bg-slate-950/50 space-y-3 text-xs text-slate-400">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex items-center justify-between gap-2">
+          Fret span
+          <select value={options.maxSpan} onChange={(e) => update({ maxSpan: Number(e.target.value) })} className={selectClass}>
+            {[2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          Fingers
+          <select value={options.maxFingers} onChange={(e) => update({ maxFingers: Number(e.target.value) })} className={selectClass}>
+            {[2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          Bass
+          <select value={options.bass} onChange={(e) => update({ bass: e.target.value })} className={selectClass}>
+            <option value="root">Root</option>
+            <option value="any">Any tone</option>
+            {chord.notes.slice(1).map(n => <option key={n} value={n}>/{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          Min strings
+          <select value={options.minStrings} onChange={(e) => update({ minStrings: Number(e.target.value) })} className={selectClass}>
+            {[3, 4, 5, 6].filter(n => n <= stringCount).map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="flex items-center gap-1">
+        <span className="mr-1">Strings</span>
+        {Array.from({ length: stringCount }, (_, s) => (
+          <button
+            key={s}
+            onClick={() => toggleString(s)}
+            className={`w-6 h-6 rounded font-mono border transition-colors ${options.strings.includes(s) ? 'bg-cyan-900/50 border-cyan-500/50 text-cyan-300' : 'border-slate-700 text-slate-600'}`}
+          >
+            {stringCount - s}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={options.allowOmitFifth} onChange={(e) => update({ allowOmitFifth: e.target.checked })} className="accent-cyan-500" />
+          Allow omitted 5th
+        </label>
+        <button
+          onClick={onSearch}
+          className="px-3 py-1 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded-full transition-colors"
+        >
+          Find Voicings
+        </button>
       </div>
     </div>
   );
@@ -637,8 +3998,8 @@ const TheorySpectrum = ({ scaleNotes, currentChord }: { scaleNotes: string[], cu
   return (
     <div className="flex gap-2 justify-center mt-4 flex-wrap">
       {scaleNotes.map((note, i) => {
-        const isChordTone = currentChord?.notes.includes(note);
-        const isRoot = currentChord?.root === note;
+        const isChordTone = currentChord?.notes.some(n => isSameNote(n, note));
+        const isRoot = !!currentChord && isSameNote(currentChord.root, note);
         let label = (i + 1).toString();
         const isPrimary = i === 0 || i === 2 || i === 4 || i === 6;
         if (i === 0) label = "Root"; else if (i === 2) label = "3rd"; else if (i === 4) label = "5th"; else if (i === 6) label = "7th";
@@ -671,40 +4032,193 @@ const ChordLegend = () => (
     <div className="flex items-center gap-2 text-xs text-slate-400">
       <div className="w-3 h-3 rounded-full bg-purple-500 shadow-[0_0_8px_rgba(168,85,247,0.4)]"></div> Borrowed
     </div>
-  </div>
-);
+  </div>
+);
+
+const CorpusPanel = ({ root, style, onLoad, onClose }: {
+  root: string,
+  style: string,
+  onLoad: (entry: CorpusProgression) => void,
+  onClose: () => void
+}) => {
+  const [query, setQuery] = useState('');
+  const [styleFilter, setStyleFilter] = useState(style);
+  const [modeFilter, setModeFilter] = useState('All');
+  const modes = Array.from(new Set(PROGRESSION_CORPUS.map(p => p.mode)));
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const results = PROGRESSION_CORPUS.filter(p =>
+    (styleFilter === 'All' || p.styles.includes(styleFilter)) &&
+    (modeFilter === 'All' || p.mode === modeFilter) &&
+    terms.every(t => `${p.name} ${p.romans} ${p.tags.join(' ')}`.toLowerCase().includes(t))
+  );
+  const selectClass = "bg-slate-800 text-white text-xs py-1 px-2 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+  // Chord names in the current key, for a quick look before loading
+  const preview = (p: CorpusProgression) =>
+    splitProgressionText(p.romans).map(t => parseChordToken(t, root, p.mode)).map(t => t.root ? `${t.root}${t.quality}` : t.token).join(' ');
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-[90] w-full max-w-sm bg-slate-900 border-l border-slate-700 shadow-2xl flex flex-col animate-in slide-in-from-right duration-200">
+      <div className="p-4 border-b border-slate-800 bg-gradient-to-r from-cyan-900/20 to-blue-900/20 flex items-center justify-between">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2">
+          <ListMusic size={20} className="text-cyan-400" /> Famous Progressions
+        </h2>
+        <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={20} /></button>
+      </div>
+
+      <div className="p-4 border-b border-slate-800 space-y-2">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search names, numerals or tags"
+          className="w-full bg-slate-800 text-white text-sm py-1.5 px-3 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+        />
+        <div className="flex gap-2">
+          <select value={styleFilter} onChange={(e) => setStyleFilter(e.target.value)} className={selectClass}>
+            <option value="All">All styles</option>
+            {MUSIC_STYLES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+          </select>
+          <select value={modeFilter} onChange={(e) => setModeFilter(e.target.value)} className={selectClass}>
+            <option value="All">All modes</option>
+            {modes.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {results.length === 0 && <p className="text-sm text-slate-500">No progressions match.</p>}
+        {results.map(p => (
+          <div key={p.id} className="bg-slate-800/60 border border-slate-700 rounded-xl p-3">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <h3 className="font-bold text-white text-sm">{p.name}</h3>
+                <p className="text-[10px] text-slate-500">{p.mode} · {p.styles.join(', ')}</p>
+              </div>
+              <button
+                onClick={() => onLoad(p)}
+                className="px-2 py-1 rounded bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold flex-shrink-0"
+                title={`Load into ${root} ${p.mode}`}
+              >
+                Load
+              </button>
+            </div>
+            <p className="font-mono text-xs text-cyan-300 mt-2">{p.romans}</p>
+            <p className="font-mono text-[10px] text-slate-400 mt-0.5">{preview(p)}</p>
+            <p className="text-xs text-slate-400 mt-2 leading-snug">{p.description}</p>
+            <div className="flex flex-wrap gap-1 mt-2">
+              {p.tags.map(t => (
+                <button key={t} onClick={() => setQuery(t)} className="text-[10px] px-1.5 py-0.5 rounded bg-slate-700 text-slate-300 hover:bg-slate-600">
+                  #{t}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="p-3 border-t border-slate-800 text-[10px] text-slate-600">Corpus v{PROGRESSION_CORPUS_VERSION} · {PROGRESSION_CORPUS.length} progressions</p>
+    </div>
+  );
+};
 
 // --- MAIN APP ---
 
-interface Transition {
-  type: 'resolution' | 'tension' | 'adventure' | 'neutral';
-  label: string;
-  icon?: React.ReactNode;
-}
+// Voicing Finder defaults for an instrument, searching every string of its tuning
+const getVoicingSearchDefaults = (instrument: Instrument, tuning: TuningString[]): VoicingSearchOptions =>
+  ({ ...DEFAULT_VOICING_SEARCH, ...instrument.search, strings: tuning.map((_, s) => s) });
 
 export default function App() {
-  const [root, setRoot] = useState('C');
-  const [scaleType, setScaleType] = useState('Major');
-  const [style, setStyle] = useState('Pop');
-  const [progression, setProgression] = useState<Chord[]>([]);
+  // Pick up the working session from before the last reload
+  const [restored] = useState(loadWorkingSession);
+  const [root, setRoot] = useState(restored.root);
+  const [scaleType, setScaleType] = useState(restored.scaleType);
+  const [style, setStyle] = useState(restored.style);
+  const [progression, setProgression] = useState<Chord[]>(restored.progression);
+  const [songSections, setSongSections] = useState<SongSection[] | null>(restored.sections ?? null);
   const [selectedChord, setSelectedChord] = useState<Chord | null>(null);
   const [showScale, setShowScale] = useState(false);
+  const [showNeck, setShowNeck] = useState(false);
+  const [labelMode, setLabelMode] = useState<FretboardLabelMode>('notes');
   const [isAiLoading, setIsAiLoading] = useState(false);
-  const [aiFeedback, setAiFeedback] = useState<string | null>(null);
+  const [aiAnalysis, setAiAnalysis] = useState<AiAnalysis | null>(null);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [aiSuggestions, setAiSuggestions] = useState<ChordSuggestion[] | null>(null);
+  const [isRanking, setIsRanking] = useState(false);
+  const [rankError, setRankError] = useState<string | null>(null);
   const [showGuide, setShowGuide] = useState(true);
+  const [borrowFilter, setBorrowFilter] = useState('All');
+  const [showVoicingFinder, setShowVoicingFinder] = useState(false);
+  const [voicingSearch, setVoicingSearch] = useState<VoicingSearchOptions>(() => {
+    const instrument = getInstrument(restored.instrumentId);
+    return getVoicingSearchDefaults(instrument, getSoundingTuning(instrument, restored.tuningId, restored.customTuning, restored.capo));
+  });
+  const [voicingSearchMessage, setVoicingSearchMessage] = useState<string | null>(null);
+  const [voiceLeading, setVoiceLeading] = useState<VoiceLeadingOptions>(DEFAULT_VOICE_LEADING);
+  const [transport, setTransport] = useState<TransportSettings>(restored.transport);
+  const [transportStatus, setTransportStatus] = useState<TransportStatus>('stopped');
+  const [playheadStep, setPlayheadStep] = useState<number | null>(null);
+  const [patternId, setPatternId] = useState(restored.patternId);
+  const [customArpOrder, setCustomArpOrder] = useState(restored.customArpOrder);
+  const [countIn, setCountIn] = useState(restored.countIn);
+  const [synthVoice, setSynthVoice] = useState<SynthVoice>(restored.synthVoice);
+  const [isRendering, setIsRendering] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [instrumentId, setInstrumentId] = useState(restored.instrumentId);
+  const [tuningId, setTuningId] = useState(restored.tuningId);
+  const [customTuning, setCustomTuning] = useState(restored.customTuning);
+  const [capo, setCapo] = useState(restored.capo);
+  const [library, setLibrary] = useState<SavedSession[]>(loadLibrary);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [pendingKeyChange, setPendingKeyChange] = useState<{ from: { root: string, scaleType: string }, to: { root: string, scaleType: string } } | null>(null);
+  const [pendingStyleChange, setPendingStyleChange] = useState<{ from: string, to: string } | null>(null);
+  const [shareMessage, setShareMessage] = useState<string | null>(null);
+  const [showReharmonize, setShowReharmonize] = useState(false);
+  const [showCorpus, setShowCorpus] = useState(false);
+  const [progressionText, setProgressionText] = useState('');
+  const [typedVoicingErrors, setTypedVoicingErrors] = useState<ParsedToken[]>([]);
+  const resumeIdxRef = useRef(0);
+
+  // The scheduler runs outside React, so it reads the latest state through refs
+  const progressionRef = useRef(progression);
+  const transportRef = useRef(transport);
+  progressionRef.current = progression;
+  transportRef.current = transport;
+
+  // Sections always cover the progression exactly; playback walks the expanded plan
+  const sections = useMemo(() => songSections && fitSections(songSections, progression.length), [songSections, progression.length]);
+  const playbackPlan = useMemo(() => getPlaybackPlan(sections, progression.length), [sections, progression.length]);
+  const planRef = useRef(playbackPlan);
+  planRef.current = playbackPlan;
+  const playheadIdx = playheadStep === null ? null : playbackPlan[playheadStep]?.chordIdx ?? null;
 
   // Derived Data
-  const allChords = useMemo(() => generateKeyChords(root, scaleType, style), [root, scaleType, style]);
+  const instrument = getInstrument(instrumentId);
+  const tuning = useMemo(() => getSoundingTuning(instrument, tuningId, customTuning, capo), [instrument, tuningId, customTuning, capo]);
+  const allChords = useMemo(() => generateKeyChords(root, scaleType, style, tuning, instrument), [root, scaleType, style, tuning, instrument]);
   
   // Group chords for display
   const teamChords = allChords.filter(c => c.category === 'Team');
   const variationChords = allChords.filter(c => c.category === 'Variation');
   const wildcardChords = allChords.filter(c => c.category === 'Wildcard');
+  const secondaryChords = allChords.filter(c => c.category === 'Secondary');
+  const borrowSources = Object.keys(SCALE_PATTERNS).filter(m => wildcardChords.some(c => c.sourceModes?.includes(m)));
+  const activeBorrowFilter = borrowSources.includes(borrowFilter) ? borrowFilter : 'All';
+  const visibleWildcards = wildcardChords.filter(c => activeBorrowFilter === 'All' || c.sourceModes?.includes(activeBorrowFilter));
 
-  const scaleNotes = useMemo(() => {
-    const idx = ALL_NOTES.indexOf(root);
-    return SCALE_PATTERNS[scaleType].map(i => ALL_NOTES[(idx + i) % 12]);
-  }, [root, scaleType]);
+  const scaleNotes = useMemo(() => spellScale(root, SCALE_PATTERNS[scaleType]), [root, scaleType]);
+  const analysis = useMemo(() => analyzeProgression(progression, root, scaleType, tuning), [progression, root, scaleType, tuning]);
+  const localSuggestions = useMemo(
+    () => showSuggestions ? suggestNextChords(progression, [...teamChords, ...variationChords, ...visibleWildcards], root, scaleType, tuning) : [],
+    [showSuggestions, progression, allChords, activeBorrowFilter, root, scaleType, tuning]
+  );
+  const suggestions = showSuggestions ? aiSuggestions ?? localSuggestions : [];
+  const typedTokens = useMemo(
+    () => splitProgressionText(progressionText).map(token => parseChordToken(token, root, scaleType)),
+    [progressionText, root, scaleType]
+  );
 
   const addChord = (chordTemplate: Chord) => {
     // Clone to allow independent voicing changes
@@ -714,20 +4228,313 @@ export default function App() {
     playSound(newChord);
   };
 
-  const playSound = (chord: Chord) => {
+  const removeChord = (idx: number) => {
+    if (sections) setSongSections(removeChordFromSections(sections, idx));
+    setProgression(progression.filter((_, i) => i !== idx));
+  };
+
+  // An emptied progression starts over without a form
+  useEffect(() => {
+    if (progression.length === 0) setSongSections(null);
+  }, [progression.length]);
+
+  // --- Song form ---
+  const applySongForm = (formId: string) => {
+    const template = SONG_FORMS.find(f => f.id === formId);
+    if (!template) {
+      setSongSections(null);
+      return;
+    }
+    const palette = template.mode === scaleType ? allChords : generateKeyChords(root, template.mode, style, tuning, instrument);
+    const { chords, sections: formSections, errors } = buildSongForm(template, root, palette, tuning, instrument);
+    if (errors.length > 0) {
+      setShareMessage(`Couldn't build ${template.name}: ${errors.map(e => `${e.token} (${e.error})`).join(', ')}`);
+      return;
+    }
+    stopPlayback();
+    setScaleType(template.mode);
+    setProgression(chords);
+    setSongSections(formSections);
+    setSelectedChord(null);
+    setPendingKeyChange(null);
+  };
+
+  const updateSection = (id: string, patch: Partial<SongSection>) => {
+    if (sections) setSongSections(sections.map(s => s.id === id ? clampEndings({ ...s, ...patch }) : s));
+  };
+
+  // A deleted section's chords join the section before it (or after it, for the first)
+  const deleteSection = (id: string) => {
+    if (!sections) return;
+    const i = sections.findIndex(s => s.id === id);
+    if (sections.length === 1) {
+      setSongSections(null);
+      return;
+    }
+    const into = i === 0 ? 1 : i - 1;
+    setSongSections(sections
+      // Chords appended to the previous section would land after its endings, so those go
+      .map((s, k) => k === into ? { ...s, chordCount: s.chordCount + sections[i].chordCount, endings: k < i ? undefined : s.endings } : s)
+      .filter((_, k) => k !== i));
+  };
+
+  const startSectionAt = (idx: number) => {
+    const current = sections ?? [{ id: createSectionId(), name: 'A', chordCount: progression.length, repeats: 1 }];
+    setSongSections(splitSectionAt(current, idx));
+  };
+
+  // Appends the typed progression, but only once every token makes sense
+  const addTypedChords = () => {
+    const { chords, errors } = buildParsedChords(typedTokens, allChords, root, scaleType, tuning, instrument);
+    setTypedVoicingErrors(errors);
+    if (chords.length === 0 || errors.length > 0) return;
+    setProgression([...progression, ...chords]);
+    setSelectedChord(chords[chords.length - 1]);
+    setProgressionText('');
+  };
+  const typedErrors = typedTokens.filter(t => t.error);
+
+  const parseStringOrder = (text: string): number[] =>
+    text.split(/[\s,-]+/).map(Number).filter(n => n >= 1 && n <= tuning.length).map(n => tuning.length - n);
+
+  // Chord names stay in concert key; only the voicings follow the instrument, tuning and capo
+  const changeTuning = (patch: { instrumentId?: string, tuningId?: string, customTuning?: string, capo?: number }) => {
+    const nextInstrument = getInstrument(patch.instrumentId ?? instrumentId);
+    const nextId = patch.tuningId ?? tuningId;
+    const nextCustom = patch.customTuning ?? customTuning;
+    const nextCapo = patch.capo ?? capo;
+    const next = getSoundingTuning(nextInstrument, nextId, nextCustom, nextCapo);
+    setInstrumentId(nextInstrument.id);
+    setTuningId(nextId);
+    setCustomTuning(nextCustom);
+    setCapo(nextCapo);
+    if (nextInstrument === instrument && formatTuning(next) === formatTuning(tuning)) return;
+    setProgression(progression.map(c => revoiceChord(c, next, nextInstrument)));
+    setSelectedChord(selectedChord ? revoiceChord(selectedChord, next, nextInstrument) : null);
+    setVoicingSearch(getVoicingSearchDefaults(nextInstrument, next));
+  };
+
+  const playSound = (chord: Chord, when?: number, duration?: number, target?: AudioTarget) => {
     const voicing = chord.voicings[chord.activeVoicingIdx];
     if (!voicing) return;
 
-    const notesToPlay: {note: string, octave: number}[] = [];
+    // Transport playback follows the chord's (or progression's) rhythm pattern
+    if (when !== undefined && duration !== undefined) {
+      const pattern = getRhythmPattern(chord.patternId ?? patternId);
+      playPattern(voicing.frets, pattern, when, duration, getSecondsPerBeat(transport), parseStringOrder(customArpOrder), { target, voice: synthVoice }, tuning);
+      return;
+    }
+
+    // Preview: a single downstroke in string order
+    const notesToPlay: StrumNote[] = [];
     voicing.frets.forEach((fret, stringIdx) => {
       if (fret !== -1) {
-        const note = getNoteAtFret(stringIdx, fret);
-        if (note) notesToPlay.push(note);
+        const note = getNoteAtFret(stringIdx, fret, tuning);
+        if (note) notesToPlay.push({ ...note, string: stringIdx });
       }
     });
-    // Sort by pitch
-    notesToPlay.sort((a,b) => (a.octave * 12 + ALL_NOTES.indexOf(a.note)) - (b.octave * 12 + ALL_NOTES.indexOf(b.note)));
-    strumChord(notesToPlay);
+    strumChord(notesToPlay, when, { voice: synthVoice });
+  };
+  const playSoundRef = useRef(playSound);
+  playSoundRef.current = playSound;
+
+  const transportEngine = useMemo(() => createTransport({
+    getLength: () => planRef.current.length,
+    getSettings: () => transportRef.current,
+    onSchedule: (step, time, duration) => {
+      const chord = progressionRef.current[planRef.current[step]?.chordIdx];
+      if (chord) playSoundRef.current(chord, time, duration);
+    },
+    onPlayhead: setPlayheadStep,
+    onEnd: () => { resumeIdxRef.current = 0; setTransportStatus('stopped'); },
+  }), []);
+
+  useEffect(() => () => transportEngine.stop(), [transportEngine]);
+
+  const togglePlayback = () => {
+    if (transportStatus === 'playing') {
+      resumeIdxRef.current = transportEngine.pause();
+      setTransportStatus('paused');
+      return;
+    }
+    if (progression.length === 0) return;
+    transportEngine.start(transportStatus === 'paused' ? resumeIdxRef.current % playbackPlan.length : 0);
+    setTransportStatus('playing');
+  };
+
+  const stopPlayback = () => {
+    transportEngine.stop();
+    resumeIdxRef.current = 0;
+    setTransportStatus('stopped');
+  };
+
+  const updateTransport = (patch: Partial<TransportSettings>) => setTransport(t => ({ ...t, ...patch }));
+
+  // --- Library ---
+  const sessionState: SessionState = {
+    root, scaleType, style, progression, transport, patternId, customArpOrder, synthVoice, countIn,
+    instrumentId, tuningId, customTuning, capo, sections
+  };
+
+  useEffect(() => saveWorkingSession(sessionState), [
+    root, scaleType, style, progression, transport, patternId, customArpOrder, synthVoice, countIn,
+    instrumentId, tuningId, customTuning, capo, sections
+  ]);
+
+  const updateLibrary = (sessions: SavedSession[]) => {
+    setLibrary(sessions);
+    saveLibrary(sessions);
+  };
+
+  const applySessionState = (state: SessionState) => {
+    stopPlayback();
+    setRoot(state.root);
+    setScaleType(state.scaleType);
+    setStyle(state.style);
+    setProgression(state.progression);
+    setSongSections(state.sections ?? null);
+    setSelectedChord(null);
+    setTransport(state.transport);
+    setPatternId(state.patternId);
+    setCustomArpOrder(state.customArpOrder);
+    setSynthVoice(state.synthVoice);
+    setCountIn(state.countIn);
+    setInstrumentId(state.instrumentId);
+    setTuningId(state.tuningId);
+    setCustomTuning(state.customTuning);
+    setCapo(state.capo);
+    setPendingKeyChange(null);
+    setPendingStyleChange(null);
+    const nextInstrument = getInstrument(state.instrumentId);
+    setVoicingSearch(getVoicingSearchDefaults(nextInstrument, getSoundingTuning(nextInstrument, state.tuningId, state.customTuning, state.capo)));
+  };
+
+  const saveSessionAs = (name: string, tags: string[]) => {
+    const now = Date.now();
+    const session: SavedSession = { ...sessionState, id: createSessionId(), name, tags, createdAt: now, updatedAt: now, openedAt: now };
+    updateLibrary([...library, session]);
+    setCurrentSessionId(session.id);
+  };
+
+  const saveSession = () => {
+    updateLibrary(library.map(s => s.id === currentSessionId ? { ...s, ...sessionState, updatedAt: Date.now() } : s));
+  };
+
+  const loadSession = (id: string) => {
+    const session = library.find(s => s.id === id);
+    if (!session) return;
+    applySessionState(session);
+    updateLibrary(library.map(s => s.id === id ? { ...s, openedAt: Date.now() } : s));
+    setCurrentSessionId(id);
+    setShowLibrary(false);
+  };
+
+  const updateSession = (id: string, patch: Partial<Pick<SavedSession, 'name' | 'tags'>>) => {
+    updateLibrary(library.map(s => s.id === id ? { ...s, ...patch, updatedAt: Date.now() } : s));
+  };
+
+  const duplicateSession = (id: string) => {
+    const session = library.find(s => s.id === id);
+    if (!session) return;
+    const now = Date.now();
+    updateLibrary([...library, { ...session, id: createSessionId(), name: `${session.name} (copy)`, createdAt: now, updatedAt: now, openedAt: now }]);
+  };
+
+  const deleteSession = (id: string) => {
+    updateLibrary(library.filter(s => s.id !== id));
+    if (id === currentSessionId) setCurrentSessionId(null);
+  };
+
+  // --- Share links ---
+  const applySharedState = (shared: SharedState) => {
+    const { bpm, ...rest } = shared;
+    applySessionState({ ...sessionState, ...rest, transport: { ...transport, bpm }, sections: null });
+    setCurrentSessionId(null);
+  };
+  // Famous progressions come in on the current root, in the mode they are written for
+  const loadCorpusProgression = (entry: CorpusProgression) => {
+    const palette = entry.mode === scaleType ? allChords : generateKeyChords(root, entry.mode, style, tuning, instrument);
+    const parsed = splitProgressionText(entry.romans).map(token => parseChordToken(token, root, entry.mode));
+    const { chords, errors } = buildParsedChords(parsed, palette, root, entry.mode, tuning, instrument);
+    if (errors.length > 0) {
+      setShareMessage(`Couldn't load ${entry.name}: ${errors.map(e => `${e.token} (${e.error})`).join(', ')}`);
+      return;
+    }
+    stopPlayback();
+    setScaleType(entry.mode);
+    setProgression(chords);
+    setSongSections(null);
+    setSelectedChord(null);
+    setPendingKeyChange(null);
+    setPendingStyleChange(null);
+    setCurrentSessionId(null);
+    setShowCorpus(false);
+  };
+
+  const applySharedRef = useRef(applySharedState);
+  applySharedRef.current = applySharedState;
+
+  // Opens a shared progression from the URL hash, on load and when a link is pasted into the tab
+  useEffect(() => {
+    const openHash = () => {
+      if (!isShareHash(window.location.hash)) return;
+      const result = decodeShareHash(window.location.hash);
+      if ('error' in result) {
+        setShareMessage(result.error);
+        return;
+      }
+      applySharedRef.current(result.state);
+      setShareMessage('Opened a shared progression.');
+    };
+    openHash();
+    window.addEventListener('hashchange', openHash);
+    return () => window.removeEventListener('hashchange', openHash);
+  }, []);
+
+  const shareProgression = async () => {
+    const hash = encodeShareHash(sessionState);
+    window.history.replaceState(null, '', `#${hash}`);
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setShareMessage('Link copied to the clipboard.');
+    } catch {
+      setShareMessage('Link ready in the address bar.');
+    }
+  };
+
+  // Changing key or mode keeps the progression and offers to move it into the new key
+  const changeKey = (newRoot: string, newScaleType: string) => {
+    const from = pendingKeyChange?.from ?? { root, scaleType };
+    const unchanged = from.root === newRoot && from.scaleType === newScaleType;
+    if (progression.length > 0) setPendingKeyChange(unchanged ? null : { from, to: { root: newRoot, scaleType: newScaleType } });
+    setRoot(newRoot);
+    setScaleType(newScaleType);
+  };
+
+  // Changing style swaps the palette but keeps the progression until the user decides
+  const changeStyle = (newStyle: string) => {
+    if (newStyle === style) return;
+    const from = pendingStyleChange?.from ?? style;
+    if (progression.length > 0) setPendingStyleChange(newStyle === from ? null : { from, to: newStyle });
+    setStyle(newStyle);
+  };
+
+  const applyReharmonize = (newRoot: string, newScaleType: string, newProg: Chord[]) => {
+    setRoot(newRoot);
+    setScaleType(newScaleType);
+    setProgression(newProg);
+    setSelectedChord(newProg.find(c => c.id === selectedChord?.id) ?? null);
+    setPendingKeyChange(null);
+    setShowReharmonize(false);
+  };
+
+  const transposeProgression = () => {
+    if (!pendingKeyChange) return;
+    const changes = reharmonizeProgression(progression, pendingKeyChange.from, pendingKeyChange.to, style, tuning, instrument);
+    const newProg = changes.map(c => c.after);
+    setProgression(newProg);
+    setSelectedChord(newProg.find(c => c.id === selectedChord?.id) ?? null);
+    setPendingKeyChange(null);
   };
 
   const changeVoicing = (delta: number) => {
@@ -746,18 +4553,78 @@ export default function App() {
     playSound(newProg[idx]);
   };
 
-  const getTransitionInfo = (prev: Chord, curr: Chord): Transition => {
-    // Simple Functional Logic
-    if (prev.function === 'Tension' && curr.function === 'Home') 
-       return { type: 'resolution', label: 'Resolve' };
-    if (prev.function === 'Home' && curr.function === 'Tension')
-       return { type: 'tension', label: 'Build' };
-    if (prev.function === 'Adventure' && curr.function === 'Tension')
-       return { type: 'tension', label: 'Push' };
-    if (curr.function === 'Stranger' || curr.category === 'Wildcard')
-       return { type: 'adventure', label: 'Surprise' };
-    
-    return { type: 'neutral', label: 'Flow' };
+  const exportMidi = () => {
+    if (progression.length === 0) return;
+    const title = `${root} ${scaleType} - ${progression.map(c => c.name).join(' ')}`;
+    const data = createMidiFile(playbackPlan.map(step => progression[step.chordIdx]), transport, title, tuning);
+    downloadBlob(new Blob([data], { type: 'audio/midi' }), `chordlab-${root}-${scaleType.replace(/\W+/g, '-')}.mid`.toLowerCase());
+  };
+
+  const exportWav = async () => {
+    if (progression.length === 0 || isRendering) return;
+    setIsRendering(true);
+    setExportError(null);
+    try {
+      const buffer = await renderProgressionAudio(
+        playbackPlan.length,
+        transport,
+        (step, time, duration, target) => playSound(progression[playbackPlan[step].chordIdx], time, duration, target),
+        countIn
+      );
+      downloadBlob(encodeWav(buffer), `chordlab-${root}-${scaleType.replace(/\W+/g, '-')}.wav`.toLowerCase());
+    } catch (e) {
+      console.error(e);
+      setExportError(`WAV export failed: ${e instanceof Error ? e.message : 'unknown error'}`);
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const updateSelectedChord = (patch: Partial<Chord>) => {
+    if (!selectedChord) return;
+    const idx = progression.findIndex(c => c.id === selectedChord.id);
+    if (idx === -1) return;
+    const newProg = [...progression];
+    newProg[idx] = { ...newProg[idx], ...patch };
+    setProgression(newProg);
+    setSelectedChord(newProg[idx]);
+    return newProg[idx];
+  };
+
+  const selectVoicing = (voicingIdx: number) => {
+    const updated = updateSelectedChord({ activeVoicingIdx: voicingIdx });
+    if (updated) playSound(updated);
+  };
+
+  const optimizeProgression = () => {
+    if (progression.length < 2) return;
+    const chosen = optimizeVoiceLeading(progression, voiceLeading, tuning);
+    const newProg = progression.map((c, i) => ({ ...c, activeVoicingIdx: chosen[i] }));
+    setProgression(newProg);
+    const selected = newProg.find(c => c.id === selectedChord?.id);
+    if (selected) setSelectedChord(selected);
+  };
+
+  const toggleLock = (idx: number) => {
+    const newProg = [...progression];
+    newProg[idx] = { ...newProg[idx], locked: !newProg[idx].locked };
+    setProgression(newProg);
+    if (selectedChord?.id === newProg[idx].id) setSelectedChord(newProg[idx]);
+  };
+
+  const setChordPattern = (id: string | undefined) => updateSelectedChord({ patternId: id });
+
+  // Replaces the selected card's voicings with everything the search finds, easiest first
+  const runVoicingSearch = () => {
+    if (!selectedChord) return;
+    const results = findVoicings(selectedChord.root, selectedChord.quality, voicingSearch, tuning);
+    if (results.length === 0) {
+      setVoicingSearchMessage('No playable voicings within these limits.');
+      return;
+    }
+    setVoicingSearchMessage(`${results.length} voicings found, easiest first.`);
+    const updated = updateSelectedChord({ voicings: results.map(stripRanking), activeVoicingIdx: 0 });
+    if (updated) playSound(updated);
   };
 
   const getFunctionColor = (func: string) => {
@@ -782,26 +4649,77 @@ export default function App() {
     }
   };
 
+  const updateAiSettings = (patch: Partial<AiSettings>) => {
+    const next = { ...aiSettings, ...patch };
+    setAiSettings(next);
+    saveAiSettings(next);
+  };
+
+  // A reply only describes the chords it was asked about; replies to an older request are dropped
+  const progressionNames = progression.map(c => c.name).join(' ');
+  const analysisRequestRef = useRef(0);
+  useEffect(() => {
+    analysisRequestRef.current++;
+    setAiAnalysis(null);
+    setAiError(null);
+    setIsAiLoading(false);
+  }, [progressionNames]);
+
+  // A re-ranking is only good for the progression and palette it was made for
+  const rankRequestRef = useRef(0);
+  useEffect(() => {
+    rankRequestRef.current++;
+    setAiSuggestions(null);
+    setRankError(null);
+    setIsRanking(false);
+  }, [progressionNames, allChords, activeBorrowFilter]);
+
+  const rerankSuggestions = async () => {
+    const provider = createAnalysisProvider(aiSettings);
+    if (!provider.rerank || localSuggestions.length === 0) return;
+    const request = ++rankRequestRef.current;
+    setIsRanking(true);
+    setRankError(null);
+    try {
+      const ranked = await provider.rerank({ root, scaleType, style, progression, candidates: localSuggestions });
+      if (request === rankRequestRef.current) setAiSuggestions(ranked);
+    } catch (e) {
+      console.error(e);
+      if (request === rankRequestRef.current) setRankError(e instanceof Error ? e.message : 'Re-ranking failed.');
+    } finally {
+      if (request === rankRequestRef.current) setIsRanking(false);
+    }
+  };
+
+  // Highlight and rank badge for suggested palette chords
+  const getSuggestion = (chord: Chord) => {
+    const rank = suggestions.findIndex(s => s.chord.id === chord.id);
+    return rank === -1 ? null : { rank: rank + 1, reason: suggestions[rank].reason };
+  };
+  const renderSuggestionBadge = (chord: Chord) => {
+    const suggestion = getSuggestion(chord);
+    return suggestion && (
+      <span className="absolute top-1 right-1 w-4 h-4 rounded-full bg-emerald-400 text-slate-900 text-[9px] font-bold flex items-center justify-center">{suggestion.rank}</span>
+    );
+  };
+  const suggestionRing = (chord: Chord) => getSuggestion(chord) ? 'relative ring-2 ring-emerald-400 ring-offset-2 ring-offset-slate-950' : '';
+
   const handleAiAnalyze = async () => {
     if (progression.length < 2) return;
+    const request = ++analysisRequestRef.current;
     setIsAiLoading(true);
+    setAiError(null);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-      const prompt = `Analyze this chord progression in the key of ${root} ${scaleType} for an intermediate guitar student.
-      Progression: ${progression.map(c => c.name).join(' -> ')}.
-      Musical Style: ${style}.
-      Explain the functional harmony and voice leading. Brief & concise.`;
-      
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt
-      });
-      setAiFeedback(response.text || "No feedback generated.");
+      const provider = createAnalysisProvider(aiSettings);
+      const reply = await provider.analyze({ root, scaleType, style, progression, analysis });
+      if (request === analysisRequestRef.current) setAiAnalysis(reply);
     } catch (e) {
       console.error(e);
-      setAiFeedback("Oops, my music brain is offline right now! But your ears are the best judge. 👂🎸");
+      if (request !== analysisRequestRef.current) return;
+      setAiAnalysis(null);
+      setAiError(`${e instanceof Error ? e.message : 'The analyst is unavailable.'} Your ears are still the best judge. 👂🎸`);
     } finally {
-      setIsAiLoading(false);
+      if (request === analysisRequestRef.current) setIsAiLoading(false);
     }
   };
 
@@ -809,6 +4727,39 @@ export default function App() {
     <div className="min-h-screen bg-slate-950 text-white flex flex-col font-sans">
       
       {showGuide && <GuideModal onClose={() => setShowGuide(false)} />}
+      {showCorpus && (
+        <CorpusPanel
+          root={root}
+          style={style}
+          onLoad={loadCorpusProgression}
+          onClose={() => setShowCorpus(false)}
+        />
+      )}
+      {showReharmonize && (
+        <ReharmonizeModal
+          progression={progression}
+          root={pendingKeyChange?.from.root ?? root}
+          scaleType={pendingKeyChange?.from.scaleType ?? scaleType}
+          style={style}
+          tuning={tuning}
+          instrument={instrument}
+          onApply={applyReharmonize}
+          onClose={() => setShowReharmonize(false)}
+        />
+      )}
+      {showLibrary && (
+        <LibraryModal
+          sessions={library}
+          currentId={currentSessionId}
+          onSaveAs={saveSessionAs}
+          onSave={saveSession}
+          onLoad={loadSession}
+          onUpdate={updateSession}
+          onDuplicate={duplicateSession}
+          onDelete={deleteSession}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
 
       {/* HEADER & CONTROLS */}
       <div className="p-6 border-b border-slate-800 bg-slate-900/50 backdrop-blur-sm sticky top-0 z-50">
@@ -830,7 +4781,7 @@ export default function App() {
                 {MUSIC_STYLES.map(s => (
                   <button
                     key={s.id}
-                    onClick={() => { setStyle(s.id); setProgression([]); }}
+                    onClick={() => changeStyle(s.id)}
                     className={`px-3 py-1.5 text-xs font-bold rounded-md transition-all ${
                       style === s.id ? 'bg-cyan-600 text-white shadow-sm' : 'text-slate-400 hover:text-white'
                     }`}
@@ -844,19 +4795,33 @@ export default function App() {
              <div className="flex items-center gap-2 bg-slate-900 p-1.5 rounded-lg border border-slate-700">
                <select 
                  value={root} 
-                 onChange={(e) => { setRoot(e.target.value); setProgression([]); }}
+                 onChange={(e) => changeKey(e.target.value, scaleType)}
                  className="bg-slate-800 text-white text-sm font-bold py-1.5 px-3 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
                >
-                 {ALL_NOTES.map(n => <option key={n} value={n}>{n}</option>)}
+                 {KEY_ROOTS.map(n => <option key={n} value={n}>{n}</option>)}
                </select>
                <select 
                  value={scaleType} 
-                 onChange={(e) => { setScaleType(e.target.value); setProgression([]); }}
+                 onChange={(e) => changeKey(root, e.target.value)}
                  className="bg-slate-800 text-white text-sm py-1.5 px-3 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
                >
                  {Object.keys(SCALE_PATTERNS).map(s => <option key={s} value={s}>{s}</option>)}
                </select>
             </div>
+            <button
+              onClick={() => setShowLibrary(true)}
+              className="p-2.5 bg-slate-800 hover:bg-slate-700 text-cyan-400 rounded-lg border border-slate-700 transition-colors"
+              title="Library"
+            >
+              <FolderOpen size={20} />
+            </button>
+            <button
+              onClick={() => setShowCorpus(true)}
+              className="p-2.5 bg-slate-800 hover:bg-slate-700 text-cyan-400 rounded-lg border border-slate-700 transition-colors"
+              title="Famous Progressions"
+            >
+              <ListMusic size={20} />
+            </button>
             <button 
               onClick={() => setShowGuide(true)}
               className="p-2.5 bg-slate-800 hover:bg-slate-700 text-cyan-400 rounded-lg border border-slate-700 transition-colors"
@@ -877,15 +4842,93 @@ export default function App() {
           <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 flex flex-col items-center relative overflow-hidden">
             <div className="flex items-center justify-between w-full mb-2">
               <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider">Fretboard</h2>
-              <button 
-                onClick={() => setShowScale(!showScale)}
-                className={`text-xs px-2 py-1 rounded border transition-colors ${showScale ? 'bg-cyan-900/50 border-cyan-500/50 text-cyan-300' : 'border-slate-700 text-slate-500'}`}
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setShowNeck(!showNeck)}
+                  className={`text-xs px-2 py-1 rounded border transition-colors ${showNeck ? 'bg-cyan-900/50 border-cyan-500/50 text-cyan-300' : 'border-slate-700 text-slate-500'}`}
+                >
+                  Full Neck
+                </button>
+                <button 
+                  onClick={() => setShowScale(!showScale)}
+                  className={`text-xs px-2 py-1 rounded border transition-colors ${showScale ? 'bg-cyan-900/50 border-cyan-500/50 text-cyan-300' : 'border-slate-700 text-slate-500'}`}
+                >
+                  {showScale ? 'Hide Scale' : 'Show Scale'}
+                </button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 w-full text-xs text-slate-400">
+              <select
+                value={instrumentId}
+                onChange={(e) => {
+                  const next = getInstrument(e.target.value);
+                  changeTuning({ instrumentId: next.id, tuningId: next.tunings[0].id, customTuning: formatTuning(next.tunings[0].strings) });
+                }}
+                className="bg-slate-800 text-white py-1 px-2 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                title="Instrument"
               >
-                {showScale ? 'Hide Scale' : 'Show Scale'}
-              </button>
+                {INSTRUMENTS.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+              </select>
+              <select
+                value={tuningId}
+                onChange={(e) => changeTuning({
+                  tuningId: e.target.value,
+                  // A custom tuning starts from the preset that was selected
+                  customTuning: instrument.tunings.some(t => t.id === tuningId) ? formatTuning(instrument.tunings.find(t => t.id === tuningId)!.strings) : undefined
+                })}
+                className="bg-slate-800 text-white py-1 px-2 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                title="Tuning"
+              >
+                {instrument.tunings.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                <option value={CUSTOM_TUNING_ID}>Custom...</option>
+              </select>
+              {tuningId === CUSTOM_TUNING_ID && (
+                <input
+                  key={customTuning}
+                  defaultValue={customTuning}
+                  onBlur={(e) => parseTuning(e.target.value) ? changeTuning({ customTuning: e.target.value }) : (e.target.value = customTuning)}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  className="w-40 bg-slate-800 text-white font-mono py-1 px-2 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  title="Open strings low to high, e.g. D2 A2 D3 G3 B3 D4"
+                />
+              )}
+              <label className="flex items-center gap-2 ml-auto">
+                Capo
+                <select
+                  value={capo}
+                  onChange={(e) => changeTuning({ capo: Number(e.target.value) })}
+                  className="bg-slate-800 text-white py-1 px-2 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                >
+                  {Array.from({ length: 10 }, (_, n) => <option key={n} value={n}>{n === 0 ? 'None' : n}</option>)}
+                </select>
+              </label>
             </div>
 
-            <Fretboard chord={selectedChord} showScale={showScale} scaleNotes={scaleNotes} />
+            <div className="flex bg-slate-800 p-1 rounded-lg border border-slate-700 mt-3">
+              {FRETBOARD_LABEL_MODES.map(m => (
+                <button
+                  key={m.id}
+                  onClick={() => setLabelMode(m.id)}
+                  className={`px-2 py-1 text-[10px] font-bold rounded-md transition-all ${labelMode === m.id ? 'bg-cyan-600 text-white shadow-sm' : 'text-slate-400 hover:text-white'}`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+
+            <Fretboard chord={selectedChord} showScale={showScale} scaleNotes={scaleNotes} tuning={tuning} capo={capo} labelMode={labelMode} />
+
+            {showNeck && selectedChord && (
+              <NeckView
+                chord={selectedChord}
+                tuning={tuning}
+                maxFret={Math.min(24, instrument.frets)}
+                showScale={showScale}
+                scaleNotes={scaleNotes}
+                onSelectVoicing={progression.some(c => c.id === selectedChord.id) ? selectVoicing : undefined}
+              />
+            )}
             
             {selectedChord && (
                <div className="flex items-center gap-4 mt-4">
@@ -897,6 +4940,37 @@ export default function App() {
                  <button onClick={() => changeVoicing(1)} className="p-2 rounded-full hover:bg-slate-800 transition-colors"><ChevronRight size={16}/></button>
                </div>
             )}
+
+            {selectedChord && progression.some(c => c.id === selectedChord.id) && (
+               <label className="flex items-center gap-2 mt-3 text-xs text-slate-400">
+                 Rhythm
+                 <select
+                   value={selectedChord.patternId ?? ''}
+                   onChange={(e) => setChordPattern(e.target.value || undefined)}
+                   className="bg-slate-800 text-white py-1 px-2 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                 >
+                   <option value="">Progression default</option>
+                   {RHYTHM_PATTERNS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                 </select>
+               </label>
+            )}
+
+            {selectedChord && instrument.role === 'chords' && progression.some(c => c.id === selectedChord.id) && (
+               <>
+                 <button
+                   onClick={() => { setShowVoicingFinder(!showVoicingFinder); setVoicingSearchMessage(null); }}
+                   className={`mt-3 text-xs px-2 py-1 rounded border transition-colors ${showVoicingFinder ? 'bg-cyan-900/50 border-cyan-500/50 text-cyan-300' : 'border-slate-700 text-slate-500'}`}
+                 >
+                   Voicing Finder
+                 </button>
+                 {showVoicingFinder && (
+                   <VoicingFinder chord={selectedChord} options={voicingSearch} stringCount={tuning.length} onChange={setVoicingSearch} onSearch={runVoicingSearch} />
+                 )}
+                 {showVoicingFinder && voicingSearchMessage && (
+                   <p className="text-[10px] text-slate-500 mt-2">{voicingSearchMessage}</p>
+                 )}
+               </>
+            )}
           </div>
 
           {/* Theory Spectrum */}
@@ -923,20 +4997,289 @@ export default function App() {
                 </h3>
                 <div className="flex gap-2">
                    <button 
-                     onClick={() => progression.forEach((c, i) => setTimeout(() => playSound(c), i * 1000))}
-                     className="px-3 py-1 bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold rounded-full transition-colors flex items-center gap-1"
+                     onClick={togglePlayback}
+                     disabled={progression.length === 0}
+                     className="px-3 py-1 bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold rounded-full transition-colors flex items-center gap-1 disabled:opacity-50"
+                   >
+                     {transportStatus === 'playing' ? <><Pause size={12}/> Pause</> : <><Volume2 size={12}/> {transportStatus === 'paused' ? 'Resume' : 'Play All'}</>}
+                   </button>
+                   <button 
+                     onClick={stopPlayback}
+                     disabled={transportStatus === 'stopped'}
+                     className="px-2 py-1 bg-slate-700 hover:bg-slate-600 text-slate-300 text-xs font-bold rounded-full transition-colors disabled:opacity-50"
+                     title="Stop"
+                   >
+                     <Square size={12}/>
+                   </button>
+                   <button
+                     onClick={() => setShowReharmonize(true)}
+                     disabled={progression.length === 0}
+                     className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-slate-300 text-xs font-bold rounded-full transition-colors flex items-center gap-1 disabled:opacity-50"
+                     title="Transpose or re-mode the progression"
+                   >
+                     <ArrowLeftRight size={12}/> Key
+                   </button>
+                   <button
+                     onClick={shareProgression}
+                     disabled={progression.length === 0}
+                     className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-slate-300 text-xs font-bold rounded-full transition-colors flex items-center gap-1 disabled:opacity-50"
+                     title="Copy a link to this progression"
+                   >
+                     <Link size={12}/> Share
+                   </button>
+                   <button 
+                     onClick={exportMidi}
+                     disabled={progression.length === 0}
+                     className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-slate-300 text-xs font-bold rounded-full transition-colors flex items-center gap-1 disabled:opacity-50"
+                     title="Download as Standard MIDI File"
                    >
-                     <Volume2 size={12}/> Play All
+                     <Download size={12}/> MIDI
                    </button>
                    <button 
-                     onClick={() => setProgression([])}
+                     onClick={exportWav}
+                     disabled={progression.length === 0 || isRendering}
+                     className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-slate-300 text-xs font-bold rounded-full transition-colors flex items-center gap-1 disabled:opacity-50"
+                     title="Download audio (16-bit WAV)"
+                   >
+                     {isRendering ? <RefreshCw className="animate-spin" size={12}/> : <Download size={12}/>} WAV
+                   </button>
+                   <button 
+                     onClick={() => { stopPlayback(); setProgression([]); }}
                      className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-slate-300 text-xs font-bold rounded-full transition-colors"
                    >
                      Clear
                    </button>
                 </div>
              </div>
+
+             {/* TRANSPORT SETTINGS */}
+             <div className="px-4 py-2 border-b border-slate-800 flex flex-wrap items-center gap-4 text-xs text-slate-400">
+                <label className="flex items-center gap-2">
+                  BPM
+                  <input
+                    type="number" min={30} max={240}
+                    value={transport.bpm}
+                    onChange={(e) => updateTransport({ bpm: Math.min(240, Math.max(30, Number(e.target.value) || DEFAULT_TRANSPORT.bpm)) })}
+                    className="w-16 bg-slate-800 text-white font-mono py-1 px-2 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  Time
+                  <select
+                    value={`${transport.beatsPerBar}/${transport.beatUnit}`}
+                    onChange={(e) => {
+                      const [beatsPerBar, beatUnit] = e.target.value.split('/').map(Number);
+                      updateTransport({ beatsPerBar, beatUnit, beatsPerChord: beatsPerBar });
+                    }}
+                    className="bg-slate-800 text-white py-1 px-2 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  >
+                    {TIME_SIGNATURES.map(ts => <option key={`${ts.beatsPerBar}/${ts.beatUnit}`} value={`${ts.beatsPerBar}/${ts.beatUnit}`}>{ts.beatsPerBar}/{ts.beatUnit}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  Beats / Chord
+                  <select
+                    value={transport.beatsPerChord}
+                    onChange={(e) => updateTransport({ beatsPerChord: Number(e.target.value) })}
+                    className="bg-slate-800 text-white py-1 px-2 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  >
+                    {[1, 2, 3, 4, 6, 8, 12, 16].map(b => <option key={b} value={b}>{b}</option>)}
+                  </select>
+                </label>
+                <button
+                  onClick={() => updateTransport({ loop: !transport.loop })}
+                  className={`flex items-center gap-1 px-2 py-1 rounded border transition-colors ${transport.loop ? 'bg-cyan-900/50 border-cyan-500/50 text-cyan-300' : 'border-slate-700 text-slate-500'}`}
+                >
+                  <Repeat size={12}/> Loop
+                </button>
+                <label className="flex items-center gap-2">
+                  Rhythm
+                  <select
+                    value={patternId}
+                    onChange={(e) => setPatternId(e.target.value)}
+                    className="bg-slate-800 text-white py-1 px-2 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  >
+                    {RHYTHM_PATTERNS.map(p => <option key={p.id} value={p.id} title={p.description}>{p.name}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  Sound
+                  <select
+                    value={synthVoice}
+                    onChange={(e) => setSynthVoice(e.target.value as SynthVoice)}
+                    className="bg-slate-800 text-white py-1 px-2 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  >
+                    {SYNTH_VOICES.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2" title="Add a one-bar click before the audio download">
+                  <input type="checkbox" checked={countIn} onChange={(e) => setCountIn(e.target.checked)} className="accent-cyan-500" />
+                  Count-in
+                </label>
+                {(patternId === 'arp-custom' || progression.some(c => c.patternId === 'arp-custom')) && (
+                  <label className="flex items-center gap-2" title="String numbers, 6 = low E">
+                    Strings
+                    <input
+                      value={customArpOrder}
+                      onChange={(e) => setCustomArpOrder(e.target.value)}
+                      className="w-28 bg-slate-800 text-white font-mono py-1 px-2 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                    />
+                  </label>
+                )}
+                <div className="flex items-center gap-2 ml-auto">
+                  <button
+                    onClick={optimizeProgression}
+                    disabled={progression.length < 2}
+                    className="flex items-center gap-1 px-2 py-1 rounded border border-slate-700 text-slate-300 hover:border-cyan-500/50 hover:text-cyan-300 transition-colors disabled:opacity-50"
+                    title="Pick the voicings with the smoothest voice leading (locked chords stay put)"
+                  >
+                    <Wand2 size={12}/> Optimize Voicings
+                  </button>
+                  <select
+                    value={voiceLeading.regionId}
+                    onChange={(e) => setVoiceLeading({ ...voiceLeading, regionId: e.target.value })}
+                    className="bg-slate-800 text-white py-1 px-2 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                    title="Neck region to stay in"
+                  >
+                    {NECK_REGIONS.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                  </select>
+                  <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={voiceLeading.smoothBass} onChange={(e) => setVoiceLeading({ ...voiceLeading, smoothBass: e.target.checked })} className="accent-cyan-500" />
+                    Smooth bass
+                  </label>
+                </div>
+             </div>
              
+             <div className="px-4 py-2 bg-slate-800/30 border-b border-slate-700">
+               <div className="flex items-center gap-2">
+                 <Type size={14} className="text-slate-500 flex-shrink-0" />
+                 <input
+                   type="text"
+                   value={progressionText}
+                   onChange={(e) => { setProgressionText(e.target.value); setTypedVoicingErrors([]); }}
+                   onKeyDown={(e) => { if (e.key === 'Enter') addTypedChords(); }}
+                   placeholder={`Type chords: "I vi IV V", "ii7 V7 Imaj7", "V7/V" or "C Am F G7", "C/E"`}
+                   className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white font-mono focus:outline-none focus:border-cyan-500"
+                 />
+                 <button
+                   onClick={addTypedChords}
+                   disabled={typedTokens.length === 0 || typedErrors.length > 0}
+                   className="px-3 py-1 rounded bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+                 >
+                   Add
+                 </button>
+               </div>
+               {typedTokens.length > 0 && (
+                 <div className="flex flex-wrap gap-1 mt-2 text-[10px] font-mono">
+                   {typedTokens.map(t => typedVoicingErrors.find(e => e.token === t.token) ?? t).map((t, i) => (
+                     <span
+                       key={i}
+                       title={t.error ?? (t.bass ? `${t.root}${t.quality} over ${t.bass}` : `${t.root}${t.quality}`)}
+                       className={`px-1.5 py-0.5 rounded border ${t.error ? 'border-rose-500/50 bg-rose-900/30 text-rose-300' : 'border-emerald-500/40 bg-emerald-900/20 text-emerald-300'}`}
+                     >
+                       {t.token}{!t.error && t.roman && ` = ${t.root}${t.quality}`}{t.error && `: ${t.error}`}
+                     </span>
+                   ))}
+                 </div>
+               )}
+             </div>
+
+             {/* SONG FORM */}
+             <div className="px-4 py-2 bg-slate-800/30 border-b border-slate-700 flex flex-wrap items-center gap-2 text-xs">
+               <span className="text-slate-500 font-bold uppercase tracking-wider text-[10px]">Form</span>
+               <select
+                 value=""
+                 onChange={(e) => applySongForm(e.target.value)}
+                 className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300"
+                 title="Replace the progression with a song-form template on this root"
+               >
+                 <option value="">{sections ? `${sections.length} section${sections.length === 1 ? '' : 's'}` : 'Free form'}</option>
+                 {SONG_FORMS.map(f => <option key={f.id} value={f.id} title={f.description}>{f.name}</option>)}
+                 {sections && <option value="none">Remove sections</option>}
+               </select>
+               {sections?.map(section => (
+                 <div key={section.id} className="flex items-center gap-1 bg-slate-900 border border-slate-700 rounded px-1.5 py-1">
+                   <input
+                     value={section.name}
+                     onChange={(e) => updateSection(section.id, { name: e.target.value })}
+                     className="w-16 bg-transparent text-white font-bold focus:outline-none"
+                   />
+                   <span className="text-slate-500">{getSectionBars(section, transport)} bars</span>
+                   <label className="flex items-center gap-0.5 text-slate-400" title="Times the section plays">
+                     ×<input
+                       type="number"
+                       min={1}
+                       max={8}
+                       value={section.repeats}
+                       onChange={(e) => updateSection(section.id, { repeats: Math.max(1, Math.min(8, Number(e.target.value) || 1)) })}
+                       className="w-8 bg-slate-800 rounded px-1 text-white"
+                     />
+                   </label>
+                   {section.repeats > 1 && (
+                     <label className="flex items-center gap-0.5 text-slate-400" title="Chords in the 1st and 2nd endings">
+                       1.<input
+                         type="number"
+                         min={0}
+                         value={section.endings?.[0] ?? 0}
+                         onChange={(e) => updateSection(section.id, { endings: [Math.max(0, Number(e.target.value) || 0), section.endings?.[1] ?? 0] })}
+                         className="w-8 bg-slate-800 rounded px-1 text-white"
+                       />
+                       2.<input
+                         type="number"
+                         min={0}
+                         value={section.endings?.[1] ?? 0}
+                         onChange={(e) => updateSection(section.id, { endings: [section.endings?.[0] ?? 0, Math.max(0, Number(e.target.value) || 0)] })}
+                         className="w-8 bg-slate-800 rounded px-1 text-white"
+                       />
+                     </label>
+                   )}
+                   <button onClick={() => deleteSection(section.id)} className="text-slate-500 hover:text-rose-400" title="Remove section (its chords stay)"><X size={12} /></button>
+                 </div>
+               ))}
+               {progression.length > 1 && !sections && (
+                 <span className="text-slate-500">Hover a chord and press § to start a section there.</span>
+               )}
+             </div>
+
+             {shareMessage && (
+               <div className="flex items-center gap-3 px-4 py-2 bg-slate-800/50 border-b border-slate-700 text-xs text-slate-300">
+                 <Link size={12} className="text-cyan-400" />
+                 <span>{shareMessage}</span>
+                 <button onClick={() => setShareMessage(null)} className="ml-auto text-slate-500 hover:text-white"><X size={12} /></button>
+               </div>
+             )}
+
+             {exportError && (
+               <div className="flex items-center gap-3 px-4 py-2 bg-rose-900/30 border-b border-rose-800/60 text-xs text-rose-300">
+                 <AlertCircle size={12} />
+                 <span>{exportError}</span>
+                 <button onClick={() => setExportError(null)} className="ml-auto text-rose-400 hover:text-white"><X size={12} /></button>
+               </div>
+             )}
+
+             {pendingKeyChange && progression.length > 0 && (
+               <div className="flex flex-wrap items-center gap-3 px-4 py-2 bg-amber-900/20 border-b border-amber-500/30 text-xs text-amber-200">
+                 <span>Key changed from {pendingKeyChange.from.root} {pendingKeyChange.from.scaleType} to {pendingKeyChange.to.root} {pendingKeyChange.to.scaleType}. Move the progression into the new key?</span>
+                 <div className="flex items-center gap-2 ml-auto">
+                   <button onClick={transposeProgression} className="px-2 py-1 rounded bg-amber-500 text-slate-900 font-bold hover:bg-amber-400">
+                     {pendingKeyChange.from.scaleType === pendingKeyChange.to.scaleType ? 'Transpose' : 'Re-mode'}
+                   </button>
+                   <button onClick={() => setPendingKeyChange(null)} className="px-2 py-1 rounded border border-amber-500/40 hover:bg-amber-500/10">Keep Chords</button>
+                   <button onClick={() => { setProgression([]); setPendingKeyChange(null); }} className="px-2 py-1 rounded border border-amber-500/40 hover:bg-amber-500/10">Clear</button>
+                 </div>
+               </div>
+             )}
+
+             {pendingStyleChange && progression.length > 0 && (
+               <div className="flex flex-wrap items-center gap-3 px-4 py-2 bg-amber-900/20 border-b border-amber-500/30 text-xs text-amber-200">
+                 <span>Style changed from {pendingStyleChange.from} to {pendingStyleChange.to}. Keep the current progression?</span>
+                 <div className="flex items-center gap-2 ml-auto">
+                   <button onClick={() => setPendingStyleChange(null)} className="px-2 py-1 rounded bg-amber-500 text-slate-900 font-bold hover:bg-amber-400">Keep Chords</button>
+                   <button onClick={() => { stopPlayback(); setProgression([]); setPendingStyleChange(null); }} className="px-2 py-1 rounded border border-amber-500/40 hover:bg-amber-500/10">Clear</button>
+                 </div>
+               </div>
+             )}
+
              <div className="flex gap-2 overflow-x-auto p-4 scrollbar-hide snap-x items-center min-h-[180px]">
                {progression.length === 0 && (
                  <div className="w-full h-36 border-2 border-dashed border-slate-700 rounded-xl flex items-center justify-center text-slate-600">
@@ -945,20 +5288,30 @@ export default function App() {
                )}
                
                {progression.map((chord, idx) => {
-                  const transition = (idx > 0) ? getTransitionInfo(progression[idx-1], chord) : null;
+                  const transition = (idx > 0) ? analysis.transitions[idx - 1] : null;
+                  const sectionStarts = sections ? getSectionStarts(sections) : [];
+                  const section = sections?.find((s, i) => sectionStarts[i] === idx && s.chordCount > 0);
+                  const canSplit = !sections?.some((s, i) => s.endings && idx > sectionStarts[i] && idx < sectionStarts[i] + s.chordCount);
+                  const ending = sections ? getEndingNumber(sections, idx) : 0;
+                  // The repeat sign closes the body (or the first ending) of a repeated section
+                  const closing = sections?.find((s, i) => s.repeats > 1 && s.chordCount > 0 &&
+                    idx === sectionStarts[i] + s.chordCount - (s.endings?.[1] ?? 0) - 1);
                   
                   return (
                    <React.Fragment key={chord.id || idx}>
                      
                      {transition && (
-                       <div className="flex flex-col items-center justify-center w-16 px-1 z-10 -ml-2 -mr-2 flex-shrink-0 animate-in fade-in zoom-in duration-300">
+                       <div
+                         className="flex flex-col items-center justify-center w-16 px-1 z-10 -ml-2 -mr-2 flex-shrink-0 animate-in fade-in zoom-in duration-300"
+                         title={transition.annotations.map(n => n.detail).join('\n')}
+                       >
                           <div className={`w-6 h-6 rounded-full flex items-center justify-center bg-slate-800 border shadow-sm ${
                             transition.type === 'resolution' ? 'border-cyan-500 text-cyan-500' :
                             transition.type === 'tension' ? 'border-rose-500 text-rose-500' :
                             transition.type === 'adventure' ? 'border-amber-500 text-amber-500' :
                             'border-slate-500 text-slate-400'
                           }`}>
-                            {transition.icon || <ArrowRight size={12}/>}
+                            <ArrowRight size={12}/>
                           </div>
                           <span className="text-[9px] text-slate-400 font-bold mt-1 text-center leading-tight w-full truncate">
                             {transition.label}
@@ -966,12 +5319,26 @@ export default function App() {
                        </div>
                      )}
 
+                     {section && (
+                       <div className="flex flex-col items-center justify-center self-stretch flex-shrink-0 border-l-4 border-double border-slate-500 pl-2 pr-1">
+                         <span className="text-xs font-bold text-white">{section.name}</span>
+                         <span className="text-[9px] text-slate-500">{getSectionBars(section, transport)} bars</span>
+                         {section.repeats > 1 && <span className="text-[9px] text-emerald-400 font-bold">×{section.repeats}</span>}
+                       </div>
+                     )}
+
                      <div className="relative group flex-shrink-0 snap-center">
+                       {ending > 0 && (
+                         <div className={`absolute -top-3 left-1 right-1 border-t-2 border-l-2 ${ending === 1 ? 'border-amber-400' : 'border-cyan-400'} text-[9px] font-bold pl-1 leading-tight ${ending === 1 ? 'text-amber-400' : 'text-cyan-400'}`}>
+                           {ending}.
+                         </div>
+                       )}
                        <div 
                          onClick={() => { setSelectedChord(chord); playSound(chord); }}
                          className={`
                            w-32 h-36 bg-slate-800 rounded-xl flex flex-col items-center justify-center border-2 cursor-pointer transition-all hover:-translate-y-1
                            ${selectedChord && selectedChord.id === chord.id ? 'border-white shadow-xl shadow-white/10 scale-105 z-10' : getFunctionColor(chord.function)}
+                           ${playheadIdx === idx ? 'ring-4 ring-emerald-400/70' : ''}
                          `}
                        >
                          <div className={`absolute top-2 left-2 text-[9px] font-bold px-1.5 py-0.5 rounded ${getFunctionBadgeColor(chord.function)}`}>
@@ -983,30 +5350,131 @@ export default function App() {
                          <span className="text-[10px] text-slate-500 font-mono mt-auto mb-3">{chord.roman}</span>
                        </div>
                        
+                       <button
+                         onClick={(e) => { e.stopPropagation(); toggleLock(idx); }}
+                         className={`absolute -top-2 -left-2 rounded-full p-1 shadow-sm z-20 transition-opacity ${chord.locked ? 'bg-amber-500 text-slate-900 opacity-100' : 'bg-slate-600 text-white opacity-0 group-hover:opacity-100'}`}
+                         title={chord.locked ? 'Unlock voicing' : 'Lock voicing'}
+                       >
+                         <Lock size={12} />
+                       </button>
+
+                       {idx > 0 && !section && canSplit && (
+                         <button
+                           onClick={(e) => { e.stopPropagation(); startSectionAt(idx); }}
+                           className="absolute -bottom-2 -left-2 bg-slate-600 text-white rounded-full w-5 h-5 text-[10px] font-bold opacity-0 group-hover:opacity-100 transition-opacity shadow-sm z-20"
+                           title="Start a new section here"
+                         >
+                           §
+                         </button>
+                       )}
+
                        <button 
-                         onClick={(e) => { e.stopPropagation(); const newP = [...progression]; newP.splice(idx, 1); setProgression(newP); }}
+                         onClick={(e) => { e.stopPropagation(); removeChord(idx); }}
                          className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity shadow-sm z-20"
                        >
                          <X size={12} />
                        </button>
                      </div>
+
+                     {closing && (
+                       <div className="flex flex-col items-center justify-center self-stretch flex-shrink-0 border-r-4 border-double border-slate-500 pr-2 pl-1 text-emerald-400" title={`Repeat ${closing.name} (${closing.repeats} times)`}>
+                         <span className="text-sm font-bold leading-none">:</span>
+                         <span className="text-[9px] font-bold">×{closing.repeats}</span>
+                       </div>
+                     )}
                    </React.Fragment>
                   )
                })}
              </div>
           </div>
 
+          {/* HARMONIC ANALYSIS */}
+          {progression.length > 1 && analysis.annotations.length > 0 && (
+            <div className="bg-slate-900/50 border border-slate-700 rounded-xl p-4">
+               <h4 className="font-bold text-slate-300 text-sm mb-2 flex items-center gap-2"><Music size={14} className="text-cyan-400"/> Harmonic Analysis</h4>
+               <ul className="space-y-1 text-xs text-slate-400">
+                 {analysis.annotations.map((n, i) => (
+                   <li key={i} className="flex gap-2">
+                     <span className={`flex-shrink-0 w-24 font-bold uppercase tracking-wider text-[10px] ${
+                       n.kind === 'cadence' ? 'text-cyan-400' :
+                       n.kind === 'secondary' ? 'text-rose-400' :
+                       n.kind === 'interchange' ? 'text-purple-400' :
+                       'text-amber-400'
+                     }`}>{n.kind}</span>
+                     <span>{n.detail}</span>
+                   </li>
+                 ))}
+               </ul>
+            </div>
+          )}
+
           {/* AI FEEDBACK */}
           {progression.length > 1 && (
             <div className="bg-slate-900/50 border border-indigo-500/30 rounded-xl p-4 flex gap-4 items-start">
                <div className="p-2 bg-indigo-500/20 rounded-lg">
                  <Sparkles className="text-indigo-400" size={20} />
                </div>
-               <div className="flex-1">
-                 <h4 className="font-bold text-indigo-300 text-sm mb-1">AI Analyst</h4>
-                 <p className="text-sm text-slate-300 leading-relaxed">
-                   {aiFeedback || "Build a progression to analyze functional harmony and voice leading."}
-                 </p>
+               <div className="flex-1 min-w-0">
+                 <div className="flex flex-wrap items-center gap-2 mb-2">
+                   <h4 className="font-bold text-indigo-300 text-sm">AI Analyst</h4>
+                   <select
+                     value={aiSettings.providerId}
+                     onChange={(e) => updateAiSettings({ providerId: e.target.value })}
+                     className="bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-[10px] text-slate-300"
+                   >
+                     {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                   </select>
+                   {aiSettings.providerId === 'local' && (
+                     <>
+                       <input
+                         value={aiSettings.localUrl}
+                         onChange={(e) => updateAiSettings({ localUrl: e.target.value })}
+                         className="w-48 bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-[10px] text-slate-300 font-mono"
+                         title="Base URL of an OpenAI-compatible API"
+                       />
+                       <input
+                         value={aiSettings.localModel}
+                         onChange={(e) => updateAiSettings({ localModel: e.target.value })}
+                         className="w-24 bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-[10px] text-slate-300 font-mono"
+                         title="Model name"
+                       />
+                     </>
+                   )}
+                 </div>
+
+                 {aiError && <p className="text-sm text-rose-300 leading-relaxed">{aiError}</p>}
+                 {!aiError && !aiAnalysis && (
+                   <p className="text-sm text-slate-300 leading-relaxed">Build a progression to analyze functional harmony and voice leading.</p>
+                 )}
+                 {aiAnalysis && (
+                   <div className="space-y-3">
+                     <p className="text-sm text-slate-300 leading-relaxed">{aiAnalysis.summary}</p>
+                     <div className="flex flex-wrap gap-2">
+                       {aiAnalysis.chords.map((c, i) => (
+                         <div key={i} className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 max-w-[12rem]" title={c.comment}>
+                           <div className="flex items-center gap-1.5">
+                             <span className="text-sm font-bold">{c.name}</span>
+                             <span className={`text-[9px] font-bold uppercase px-1 rounded ${
+                               c.role === 'tonic' ? 'bg-cyan-500/20 text-cyan-300' :
+                               c.role === 'predominant' ? 'bg-amber-500/20 text-amber-300' :
+                               c.role === 'dominant' || c.role === 'secondary' ? 'bg-rose-500/20 text-rose-300' :
+                               c.role === 'borrowed' ? 'bg-purple-500/20 text-purple-300' :
+                               'bg-slate-600/40 text-slate-300'
+                             }`}>{c.role}</span>
+                           </div>
+                           <p className="text-[10px] text-slate-400 leading-snug truncate">{c.comment}</p>
+                         </div>
+                       ))}
+                     </div>
+                     <ul className="space-y-1 text-xs text-slate-400">
+                       {aiAnalysis.transitions.map((t, i) => (
+                         <li key={i}>
+                           <span className="font-bold text-slate-300">{aiAnalysis.chords[t.from]?.name} → {aiAnalysis.chords[t.to]?.name}:</span> {t.comment}
+                         </li>
+                       ))}
+                     </ul>
+                   </div>
+                 )}
                </div>
                <button 
                  onClick={handleAiAnalyze}
@@ -1022,6 +5490,33 @@ export default function App() {
           <div className="space-y-6">
             <ChordLegend />
 
+            {/* NEXT-CHORD SUGGESTIONS */}
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <button
+                onClick={() => setShowSuggestions(!showSuggestions)}
+                className={`px-3 py-1.5 rounded-lg font-bold flex items-center gap-2 transition-colors ${showSuggestions ? 'bg-emerald-500 text-slate-900' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+                title="Highlight the palette chords most likely to come next"
+              >
+                <Lightbulb size={14} /> What comes next?
+              </button>
+              {showSuggestions && createAnalysisProvider(aiSettings).rerank && (
+                <button
+                  onClick={rerankSuggestions}
+                  disabled={isRanking || localSuggestions.length === 0}
+                  className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white font-bold flex items-center gap-2 disabled:opacity-50"
+                >
+                  {isRanking ? <RefreshCw className="animate-spin" size={14}/> : <Sparkles size={14} />} AI re-rank
+                </button>
+              )}
+              {showSuggestions && (
+                <span className="text-slate-500">
+                  {rankError ?? (suggestions.length
+                    ? `${aiSuggestions ? 'Ranked by the AI analyst' : 'Ranked from common progressions'}; hover a highlighted chord for why.`
+                    : 'No suggestions for this progression.')}
+                </span>
+              )}
+            </div>
+
             {/* TEAM SECTION */}
             <div>
                <h3 className="text-cyan-400 font-bold uppercase text-xs tracking-wider mb-2 flex items-center gap-2"><Layers size={14}/> Diatonic Chords (Key Center)</h3>
@@ -1031,10 +5526,12 @@ export default function App() {
                      key={chord.id}
                      onClick={() => addChord(chord)}
                      className={`
-                       aspect-square rounded-xl flex flex-col items-center justify-center border bg-slate-900 transition-all hover:scale-105 active:scale-95
-                       ${getFunctionColor(chord.function)} hover:bg-slate-800
+                       relative aspect-square rounded-xl flex flex-col items-center justify-center border bg-slate-900 transition-all hover:scale-105 active:scale-95
+                       ${getFunctionColor(chord.function)} hover:bg-slate-800 ${suggestionRing(chord)}
                      `}
+                     title={getSuggestion(chord)?.reason}
                    >
+                     {renderSuggestionBadge(chord)}
                      <span className="text-xl font-bold text-center leading-tight">{chord.name}</span>
                      <span className="text-[10px] text-slate-500 font-mono mt-1">{chord.roman}</span>
                    </button>
@@ -1048,6 +5545,30 @@ export default function App() {
                 <h3 className="text-pink-400 font-bold uppercase text-xs tracking-wider mb-2 flex items-center gap-2"><Sparkles size={14}/> Extensions & Suspensions</h3>
                 <div className="grid grid-cols-4 sm:grid-cols-5 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-3">
                     {variationChords.map((chord) => (
+                    <button
+                        key={chord.id}
+                        onClick={() => addChord(chord)}
+                        className={`
+                        relative aspect-square rounded-xl flex flex-col items-center justify-center border bg-slate-900 transition-all hover:scale-105 active:scale-95
+                        ${getFunctionColor(chord.function)} hover:bg-slate-800 ${suggestionRing(chord)}
+                        `}
+                        title={getSuggestion(chord)?.reason}
+                    >
+                        {renderSuggestionBadge(chord)}
+                        <span className="text-lg font-bold text-center leading-tight">{chord.name}</span>
+                        <span className="text-[10px] text-slate-500 font-mono mt-1">{chord.quality}</span>
+                    </button>
+                    ))}
+                </div>
+                </div>
+            )}
+
+            {/* SECONDARY DOMINANTS SECTION */}
+            {secondaryChords.length > 0 && (
+                <div>
+                <h3 className="text-rose-400 font-bold uppercase text-xs tracking-wider mb-2 flex items-center gap-2"><Zap size={14}/> Secondary Dominants & Tritone Subs</h3>
+                <div className="grid grid-cols-4 sm:grid-cols-5 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-3">
+                    {secondaryChords.map((chord) => (
                     <button
                         key={chord.id}
                         onClick={() => addChord(chord)}
@@ -1055,9 +5576,10 @@ export default function App() {
                         aspect-square rounded-xl flex flex-col items-center justify-center border bg-slate-900 transition-all hover:scale-105 active:scale-95
                         ${getFunctionColor(chord.function)} hover:bg-slate-800
                         `}
+                        title={chord.resolvesTo ? `Resolves to ${chord.resolvesTo}` : undefined}
                     >
                         <span className="text-lg font-bold text-center leading-tight">{chord.name}</span>
-                        <span className="text-[10px] text-slate-500 font-mono mt-1">{chord.quality}</span>
+                        <span className="text-[9px] text-slate-500 font-mono mt-1 text-center px-1">{chord.roman}</span>
                     </button>
                     ))}
                 </div>
@@ -1066,21 +5588,38 @@ export default function App() {
 
             {/* WILDCARDS SECTION */}
              <div>
-               <h3 className="text-purple-400 font-bold uppercase text-xs tracking-wider mb-2 flex items-center gap-2"><Settings size={14}/> Borrowed Chords (Modal Interchange)</h3>
+               <div className="flex items-center justify-between mb-2">
+                 <h3 className="text-purple-400 font-bold uppercase text-xs tracking-wider flex items-center gap-2"><Settings size={14}/> Borrowed Chords (Modal Interchange)</h3>
+                 <select
+                   value={activeBorrowFilter}
+                   onChange={(e) => setBorrowFilter(e.target.value)}
+                   className="bg-slate-800 text-slate-300 text-xs py-1 px-2 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                 >
+                   <option value="All">From all modes</option>
+                   {borrowSources.map(m => <option key={m} value={m}>From {getModeName(m)}</option>)}
+                 </select>
+               </div>
                <div className="grid grid-cols-4 sm:grid-cols-5 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-3">
-                 {wildcardChords.map((chord) => (
+                 {visibleWildcards.map((chord) => {
+                   const sources = (chord.sourceModes || []).map(getModeName);
+                   const nickname = BORROWED_NICKNAMES[getRomanBase(chord.roman)];
+                   return (
                    <button
                      key={chord.id}
                      onClick={() => addChord(chord)}
                      className={`
-                       aspect-square rounded-xl flex flex-col items-center justify-center border bg-slate-900 transition-all hover:scale-105 active:scale-95
-                       border-purple-500 shadow-purple-900/20 hover:bg-slate-800
+                       relative aspect-square rounded-xl flex flex-col items-center justify-center border bg-slate-900 transition-all hover:scale-105 active:scale-95
+                       border-purple-500 shadow-purple-900/20 hover:bg-slate-800 ${suggestionRing(chord)}
                      `}
+                     title={getSuggestion(chord)?.reason ?? `${chord.roman} from ${sources.join(', ')}${nickname ? ` (${nickname})` : ''}`}
                    >
+                     {renderSuggestionBadge(chord)}
                      <span className="text-lg font-bold text-center leading-tight">{chord.name}</span>
                      <span className="text-[9px] text-slate-500 font-mono mt-1 text-center px-1">{chord.roman}</span>
+                     <span className="text-[8px] text-purple-300/70 mt-0.5 text-center px-1 leading-tight truncate w-full">from {sources[0]}{sources.length > 1 ? ` +${sources.length - 1}` : ''}</span>
                    </button>
-                 ))}
+                   );
+                 })}
                </div>
             </div>
 